@@ -1,7 +1,31 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { extractInvoiceData } from './services/geminiService';
-import { InvoiceItem, InvoiceRecord, AppView, AppSettings } from './types';
-import { Button, Input, Card, Badge, Toast, Modal, Switch } from './components/UI';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { extractInvoiceData, EXTRACTION_PROVIDERS } from './services/extractionService';
+import { clearReplays, countReplays } from './services/replayService';
+import { getCellElementId, getUncertainCells, markFieldReviewed, needsReview, CONFIDENCE_FIELDS } from './services/confidenceService';
+import { countPdfPages, renderPdfPage } from './services/pdfService';
+import { ALL_SHEET_COLUMNS, createVendorProfile, SHEET_COLUMN_LABELS } from './services/vendorProfileService';
+import { addCatalogAlias, createCatalogItem, rankCatalogMatches, suggestCatalogItem } from './services/catalogService';
+import { lookupPar, rememberPar } from './services/parMemoryService';
+import { createOrderRule, describeOrderRule, findOrderRule, resolveOrder } from './services/orderRulesService';
+import { buildUsageIndex, getItemUsage, suggestPar } from './services/usageService';
+import { COMPARE_FIELDS, CompareField, compareRecords, EMPTY_HISTORY_FILTER, filterRecords, HistoryFilter, historyVendors, ItemDiff, matchingItems, recordTotals } from './services/historyService';
+import { createDraftRecord, exportErrorFromResults, exportKey, markExported, recordLabel, recordMatchesReview, restoreVersion, ReviewContent, updateDraft } from './services/recordService';
+import { deleteImage, importLegacyStorage, listImages, listRecords, loadSettings, saveImage, saveImages, saveRecordChanges, saveSetting, StoredSettings } from './services/storageService';
+import { changedFields, EditCommand, EMPTY_EDIT_HISTORY, EditHistory, isFieldChanged, recordEdit, redoCommand, revertField, SCANNED_FIELD_LABELS, undoCommand } from './services/editHistoryService';
+import { applyRestore, backupBlob, backupFileName, createBackup, parseBackup, planRestore, RestoreChoice, RestoreMode, RestorePlan } from './services/backupService';
+import { DEFAULT_EXPORT_COLUMNS, downloadBlob, EXPORT_COLUMN_LABELS, EXPORTERS, exportFileName, getExporter, ALL_EXPORT_COLUMNS, toExportRows } from './services/exportService';
+import { buildPurchaseOrders, createVendorContact, findVendorContact, formatMoney, parsePoNumber, purchaseOrderEml, purchaseOrderFileName, purchaseOrderPdf, toPurchaseOrderRef } from './services/purchaseOrderService';
+import { createOutboxEntry, isOutboxEntryDue, MAX_UPLOAD_ATTEMPTS, postRows, scheduleRetry, summarizeOutcomes, toRowOutcomes, toUploadRows } from './services/uploadService';
+import { createDestination, createRoutingRule, destinationKey, getDestinations, hasUploadDestination, isWebhookDestination, MAIN_DESTINATION_ID, routeItems, spreadsheetIdFromUrl, toUploadTarget } from './services/destinationService';
+import { buildWebhookContext, buildWebhookRequest, formatWebhookRequest, sendWebhookRequest } from './services/webhookService';
+import { DEFAULT_WEIGHT_UNIT, formatQuantity, lineTotal, normalizeUnit, orderTotalsByUnit, WEIGHT_UNITS, withCatalogUnits } from './services/unitService';
+import { applySheetSync, fetchSheetItems, planSheetSync, SheetSyncPlan, SyncChoice } from './services/syncService';
+import { DEFAULT_SCRIPT_SETTINGS, fetchDeployedScriptInfo, generateScript, isScriptOutdated, SCRIPT_VERSION, scriptOptionsFromSettings } from './services/scriptService';
+import { applyMergeChoices, canSum, findDuplicateConflicts, hasDifferences, MergeChoice, MergeConflict, MERGE_FIELDS, withoutDuplicates } from './services/mergeService';
+import { InvoiceItem, InvoiceRecord, AppView, AppSettings, ConfidenceField, ScanJob, SheetColumn, VendorProfile, CatalogItem, ParMemory, ParSource, OrderRule, ScanPage, ExportColumnSetting, ExportFormat, ExportRow, VendorContact, PurchaseOrder, PurchaseOrderRef, OutboxEntry, ExportDestination, DestinationResult, RoutingRule, DeployedScriptInfo, ExportColumn, ScriptWriteMode, DestinationKind, WebhookConfig, WebhookMethod, PriceBasis, UnitConversion, RecordStatus, RecordVersion, ScannedField } from './types';
+import { Button, Input, Card, Badge, Toast, Modal, Switch, Select, TextArea } from './components/UI';
+import { UsageChart } from './components/UsageChart';
+import { RowCrop } from './components/RowCrop';
 import { 
   Camera, 
   FileText, 
@@ -20,14 +44,74 @@ import {
   Zap,
   CheckCircle2,
   AlertCircle,
-  AlertTriangle
+  AlertTriangle,
+  Cpu,
+  ScanEye,
+  Clock,
+  RotateCw,
+  LayoutList,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  BookOpen,
+  Link2,
+  PackageCheck,
+  TrendingUp,
+  Combine,
+  Download,
+  ClipboardList,
+  Mail,
+  Contact,
+  Webhook,
+  Eye,
+  GitCompare,
+  Search,
+  Archive,
+  Undo2,
+  Redo2,
+  RotateCcw
 } from 'lucide-react';
 
-const STORAGE_KEY = 'ordersheet_history';
-const SETTINGS_KEY = 'ordersheet_settings';
+const MAX_CONCURRENT_SCANS = 2;
+const RECENT_RECORDS_SHOWN = 5; // On the dashboard; the rest are in History
+
+const WEBHOOK_METHODS: WebhookMethod[] = ['POST', 'PUT', 'PATCH'];
+
+// Stand-in rows for previewing a webhook before anything has been scanned
+const PREVIEW_ITEMS: InvoiceItem[] = [
+  { id: 'preview-1', description: 'Bok Choy', vendor: 'Asian Vegetables', inStock: 2, par: 6, order: 4, price: 18.5 },
+  { id: 'preview-2', description: 'Cilantro', vendor: 'Asian Vegetables', inStock: 5, par: 5, order: 0, price: 12 },
+];
+
+const RECORD_STATUS_BADGES: Record<RecordStatus, { label: string; type: 'success' | 'warning' | 'error' }> = {
+  'Draft': { label: 'Draft', type: 'warning' },
+  'Exported': { label: 'Exported', type: 'success' },
+  'Export-failed': { label: 'Export failed', type: 'error' }
+};
+
+const PAR_SOURCE_STYLES: Record<ParSource, { label: string; className: string; title: string }> = {
+  sheet: { label: 'sheet', className: 'text-gray-400', title: 'PAR written on the sheet' },
+  memory: { label: 'mem', className: 'text-blue-500', title: 'PAR remembered from an earlier confirmation' },
+  default: { label: 'dflt', className: 'text-amber-600', title: 'No PAR known — estimated default' }
+};
 
 // The specific sheet URL provided by the user
 const DEFAULT_SHEET_URL = 'https://docs.google.com/spreadsheets/d/1c9qt5RejeAZ_tn-gXhFaDwVSIgZdmgRPojKD1LqhRYc/edit?gid=0#gid=0';
+const DEFAULT_SPREADSHEET_ID = '1c9qt5RejeAZ_tn-gXhFaDwVSIgZdmgRPojKD1LqhRYc';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  googleSheetUrl: DEFAULT_SHEET_URL,
+  scriptUrl: '',
+  autoExport: true, // Default to true to encourage automation
+  extractionProvider: 'gemini',
+  recordResponses: false,
+  daysOfCover: 7,
+  exportFormat: 'csv',
+  exportColumns: DEFAULT_EXPORT_COLUMNS,
+  destinations: [],
+  routingRules: [],
+  script: DEFAULT_SCRIPT_SETTINGS
+};
 
 // Helper to resize images before sending to API (Fixes mobile crash issues)
 const resizeImage = (file: File): Promise<string> => {
@@ -72,10 +156,70 @@ const resizeImage = (file: File): Promise<string> => {
   });
 };
 
+// Helper to read a file as base64 without any processing
+const readFileAsBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve((e.target?.result as string).split(',')[1]);
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const prepareFileForExtraction = async (file: File, pageNumber = 1): Promise<{ base64Data: string; mimeType: string }> => {
+  // PDF pages are rendered to images one at a time, so each job sends only its own page
+  if (file.type === 'application/pdf') return renderPdfPage(file, pageNumber);
+
+  // Check if it is an image and compress it
+  if (file.type.startsWith('image/')) {
+    try {
+      return { base64Data: await resizeImage(file), mimeType: 'image/jpeg' }; // Canvas exports as jpeg
+    } catch (resizeErr) {
+      console.warn("Resize failed, falling back to original", resizeErr);
+    }
+  }
+
+  // Anything else is sent as-is
+  return { base64Data: await readFileAsBase64(file), mimeType: file.type };
+};
+
+// Multi-page PDFs get one queue entry per page; each entry renders just its page when it runs
+const createScanJobs = async (file: File): Promise<ScanJob[]> => {
+  const pageCount = file.type === 'application/pdf' ? await countPdfPages(file) : 1;
+  const batchId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  return Array.from({ length: pageCount }, (_, index) => ({
+    id: `scan-${batchId}-${index + 1}`,
+    file,
+    fileName: file.name,
+    pageNumber: pageCount > 1 ? index + 1 : undefined,
+    pageCount: pageCount > 1 ? pageCount : undefined,
+    status: 'queued' as const
+  }));
+};
+
+// Saved settings can predate newer fields (or come from an older backup); fill those in
+const withDefaultSettings = (parsed: Partial<AppSettings>): AppSettings => ({
+  scriptUrl: parsed.scriptUrl || '',
+  googleSheetUrl: parsed.googleSheetUrl || DEFAULT_SHEET_URL,
+  autoExport: parsed.autoExport ?? true,
+  extractionProvider: parsed.extractionProvider || DEFAULT_SETTINGS.extractionProvider,
+  recordResponses: parsed.recordResponses ?? false,
+  daysOfCover: parsed.daysOfCover ?? DEFAULT_SETTINGS.daysOfCover,
+  exportFormat: parsed.exportFormat || DEFAULT_SETTINGS.exportFormat,
+  exportColumns: { ...DEFAULT_EXPORT_COLUMNS, ...parsed.exportColumns },
+  destinations: parsed.destinations || [],
+  routingRules: parsed.routingRules || [],
+  script: { ...DEFAULT_SCRIPT_SETTINGS, ...parsed.script }
+});
+
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.DASHBOARD);
   const [items, setItems] = useState<InvoiceItem[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [scanQueue, setScanQueue] = useState<ScanJob[]>([]);
+  const [scanPages, setScanPages] = useState<ScanPage[]>([]); // Page images behind the current review
+  const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
   const [loadingStep, setLoadingStep] = useState<string | null>(null); // 'analyzing' | 'uploading'
   const [history, setHistory] = useState<InvoiceRecord[]>([]);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
@@ -83,53 +227,224 @@ const App: React.FC = () => {
   // New state to control whether we are starting fresh or adding to existing
   const [scanMode, setScanMode] = useState<'new' | 'append'>('new');
   const [showExportModal, setShowExportModal] = useState(false);
+  const [exportModalMode, setExportModalMode] = useState<'paste' | 'download'>('paste');
 
-  const [settings, setSettings] = useState<AppSettings>({
-    googleSheetUrl: DEFAULT_SHEET_URL,
-    scriptUrl: '',
-    autoExport: true // Default to true to encourage automation
-  });
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [vendorProfiles, setVendorProfiles] = useState<VendorProfile[]>([]);
+  const [editingProfileId, setEditingProfileId] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<CatalogItem[]>([]);
+  const [linkingItemId, setLinkingItemId] = useState<string | null>(null);
+  const [catalogSearch, setCatalogSearch] = useState('');
+  const [parMemory, setParMemory] = useState<ParMemory>({});
+  const [orderRules, setOrderRules] = useState<OrderRule[]>([]);
+  const [usageItemId, setUsageItemId] = useState<string | null>(null);
+  const [vendorContacts, setVendorContacts] = useState<VendorContact[]>([]);
+  const [lastPoNumber, setLastPoNumber] = useState(0);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]); // Generated for the current review
+  const [issuedPurchaseOrders, setIssuedPurchaseOrders] = useState<PurchaseOrderRef[]>([]);
+  const [showPurchaseOrders, setShowPurchaseOrders] = useState(false);
+  const [editingContactId, setEditingContactId] = useState<string | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [exportResults, setExportResults] = useState<DestinationResult[] | null>(null);
+  const [editingDestinationId, setEditingDestinationId] = useState<string | null>(null);
+  const [syncPlan, setSyncPlan] = useState<SheetSyncPlan | null>(null);
+  const [syncChoices, setSyncChoices] = useState<Record<string, SyncChoice>>({});
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [deployedScript, setDeployedScript] = useState<DeployedScriptInfo | null>(null); // null = not checked yet
+  const [webhookPreview, setWebhookPreview] = useState<string | null>(null);
+  const [mergeConflicts, setMergeConflicts] = useState<MergeConflict[]>([]);
+  const [mergeChoices, setMergeChoices] = useState<Record<string, MergeChoice>>({});
+  const [currentRecordId, setCurrentRecordId] = useState<string | null>(null); // History record the review is saved to
+  const [showVersions, setShowVersions] = useState(false);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
+  const [comparisonChangesOnly, setComparisonChangesOnly] = useState(true);
+  const [backupImages, setBackupImages] = useState(true);
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [restoreChoices, setRestoreChoices] = useState<Record<string, RestoreChoice>>({});
+
+  // Stock counts per item across history, rebuilt only when history changes
+  const usageIndex = useMemo(() => buildUsageIndex(history), [history]);
+
+  // The Apps Script the user should have deployed, built from the current sheet settings
+  const scriptOptions = useMemo(() => scriptOptionsFromSettings(settings, DEFAULT_SPREADSHEET_ID), [settings.googleSheetUrl, settings.script]);
+  const scriptCode = useMemo(() => generateScript(scriptOptions), [scriptOptions]);
+  const scriptOutdated = deployedScript !== null && isScriptOutdated(deployedScript, scriptOptions);
   
   // File input refs
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const uploadInputRef = useRef<HTMLInputElement>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+
+  // Jobs currently being extracted, tracked outside state so the scheduler never double-starts one
+  const activeScanJobsRef = useRef<Set<string>>(new Set());
+
+  // Latest review items, for scan jobs that finish after the render they started in
+  const itemsRef = useRef<InvoiceItem[]>(items);
+  itemsRef.current = items;
+
+  // The outbox is drained from timers and the 'online' event, which outlive the render that set them up
+  const outboxRef = useRef<OutboxEntry[]>(outbox);
+  outboxRef.current = outbox;
+  const drainingOutboxRef = useRef(false);
 
-  // Load history and settings on mount
+  // Saving waits for the initial load; the ref holds the history as last written, to save only what changed
+  const [storageReady, setStorageReady] = useState(false);
+  const savedHistoryRef = useRef<InvoiceRecord[]>([]);
+
+  // Load history and settings on mount. Until that finishes nothing is saved back,
+  // so a slow or failed load can't overwrite what's stored with empty defaults.
   useEffect(() => {
-    const savedHistory = localStorage.getItem(STORAGE_KEY);
-    if (savedHistory) {
+    const load = async () => {
       try {
-        setHistory(JSON.parse(savedHistory));
+        const imported = await importLegacyStorage();
+        if (imported && imported.unreadable.length > 0) {
+          setToastMessage(`Some saved data couldn't be read (${imported.unreadable.join(', ')}); a copy was kept`);
+        }
       } catch (e) {
-        console.error("Failed to parse history", e);
+        console.error("Failed to import saved data", e);
       }
-    }
 
-    const savedSettings = localStorage.getItem(SETTINGS_KEY);
-    if (savedSettings) {
+      let records: InvoiceRecord[];
+      let saved: Partial<StoredSettings>;
       try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings({
-          scriptUrl: parsed.scriptUrl || '',
-          googleSheetUrl: DEFAULT_SHEET_URL, // Always force the correct URL
-          autoExport: parsed.autoExport ?? true
-        });
+        [records, saved] = await Promise.all([listRecords(), loadSettings()]);
       } catch (e) {
-        console.error("Failed to parse settings", e);
-        setSettings({ googleSheetUrl: DEFAULT_SHEET_URL, scriptUrl: '', autoExport: true });
+        console.error("Failed to open saved data", e);
+        setToastMessage("Couldn't open saved data. Changes this session won't be saved.");
+        return;
       }
-    } else {
-      setSettings({ googleSheetUrl: DEFAULT_SHEET_URL, scriptUrl: '', autoExport: true });
-    }
+
+      savedHistoryRef.current = records;
+      setHistory(records);
+
+      if (saved.settings) setSettings(withDefaultSettings(saved.settings));
+      if (saved.vendorProfiles) setVendorProfiles(saved.vendorProfiles);
+      if (saved.catalog) setCatalog(saved.catalog);
+      if (saved.parMemory) setParMemory(saved.parMemory);
+      if (saved.orderRules) setOrderRules(saved.orderRules);
+      if (saved.vendorContacts) setVendorContacts(saved.vendorContacts);
+      setLastPoNumber(saved.poCounter || 0);
+      if (saved.outbox) setOutbox(saved.outbox);
+      setStorageReady(true);
+    };
+    load();
   }, []);
 
+  const reportSaveError = (e: unknown) => {
+    console.error("Failed to save", e);
+    setToastMessage("Couldn't save changes on this device");
+  };
+
+  useEffect(() => {
+    if (!storageReady) return;
+    const previous = savedHistoryRef.current;
+    savedHistoryRef.current = history;
+    saveRecordChanges(previous, history).catch(reportSaveError);
+  }, [history, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveSetting('settings', settings).catch(reportSaveError);
+  }, [settings, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveSetting('vendorProfiles', vendorProfiles).catch(reportSaveError);
+  }, [vendorProfiles, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveSetting('catalog', catalog).catch(reportSaveError);
+  }, [catalog, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveSetting('parMemory', parMemory).catch(reportSaveError);
+  }, [parMemory, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveSetting('orderRules', orderRules).catch(reportSaveError);
+  }, [orderRules, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveSetting('vendorContacts', vendorContacts).catch(reportSaveError);
+  }, [vendorContacts, storageReady]);
+
+  useEffect(() => {
+    if (storageReady && lastPoNumber > 0) saveSetting('poCounter', lastPoNumber).catch(reportSaveError);
+  }, [lastPoNumber, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveSetting('outbox', outbox).catch(reportSaveError);
+  }, [outbox, storageReady]);
+
+  // The open review is saved as a draft shortly after each change, so a refresh doesn't lose it.
+  // Opening a record loads its exact contents, which doesn't count as a change.
+  useEffect(() => {
+    if (!storageReady || (!currentRecordId && items.length === 0)) return;
+
+    const content: ReviewContent = { items, pages: scanPages, purchaseOrders: issuedPurchaseOrders };
+    const timer = setTimeout(() => {
+      if (!currentRecordId) {
+        const draft = createDraftRecord(content);
+        setHistory(prev => [draft, ...prev]);
+        setCurrentRecordId(draft.id);
+        return;
+      }
+      setHistory(prev => prev.some(r => r.id === currentRecordId && !recordMatchesReview(r, content))
+        ? prev.map(r => r.id === currentRecordId ? updateDraft(r, content) : r)
+        : prev);
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [items, scanPages, issuedPurchaseOrders, currentRecordId, storageReady]);
+
+  // Wake up when the next queued upload is due
+  useEffect(() => {
+    const pending = outbox.filter(entry => entry.status === 'pending');
+    if (pending.length === 0) return;
+
+    const wait = Math.max(0, Math.min(...pending.map(entry => entry.nextAttemptAt)) - Date.now());
+    const timer = setTimeout(() => drainOutbox(), wait);
+    return () => clearTimeout(timer);
+  }, [outbox]);
+
+  // Ask the deployed script which version it is whenever the dashboard or settings are shown.
+  // Debounced so typing a script URL doesn't fire a request per keystroke.
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-  }, [history]);
+    if (!settings.scriptUrl) {
+      setDeployedScript(null);
+      return;
+    }
+    if (view !== AppView.DASHBOARD && view !== AppView.SETTINGS) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetchDeployedScriptInfo(settings.scriptUrl)
+        .then(info => !cancelled && setDeployedScript(info))
+        .catch(e => console.warn("Could not check the deployed script version", e));
+    }, 800);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [view, settings.scriptUrl]);
 
+  // Coming back online retries everything still pending straight away
   useEffect(() => {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-  }, [settings]);
+    const handleOnline = () => {
+      setIsOnline(true);
+      drainOutbox(true);
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
 
   // Handler for triggering a scan
   const triggerScan = (mode: 'new' | 'append', source: 'camera' | 'upload') => {
@@ -142,154 +457,394 @@ const App: React.FC = () => {
     }
   };
 
-  const uploadToScript = async (dataToUpload: InvoiceItem[], currentScriptUrl: string) => {
-    if (!currentScriptUrl) {
-      return false;
+  const saveRecord = (record: InvoiceRecord) => {
+    setHistory(prev => prev.some(r => r.id === record.id) ? prev.map(r => r.id === record.id ? record : r) : [record, ...prev]);
+    setCurrentRecordId(record.id);
+  };
+
+  // Later edits in Review are autosaved back to this record
+  const openRecord = (record: InvoiceRecord) => {
+    setCurrentRecordId(record.id);
+    setItems(record.items);
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setScanPages(record.pages || []);
+    setIssuedPurchaseOrders(record.purchaseOrders || []);
+    setView(AppView.REVIEW);
+  };
+
+  const discardDraft = (record: InvoiceRecord) => {
+    if (!window.confirm(`Discard the draft ${recordLabel(record)} (${record.totalItems} items)?`)) return;
+    setHistory(prev => prev.filter(r => r.id !== record.id));
+    if (currentRecordId === record.id) {
+      setCurrentRecordId(null);
+      setItems([]);
+      setEditHistory(EMPTY_EDIT_HISTORY);
+      setScanPages([]);
+      setIssuedPurchaseOrders([]);
     }
-    
-    // Sort before uploading for consistency
-    const sortedData = [...dataToUpload].sort((a, b) => 
-      a.description.toLowerCase().localeCompare(b.description.toLowerCase())
-    );
 
-    const payload = sortedData.map(i => ({
-      inStock: i.inStock,
-      par: i.par,
-      order: i.order,
-      description: i.description,
-      vendor: i.vendor,
-      price: i.price
-    }));
+    // Page images go too, unless another record was made from the same scan
+    const shared = new Set(history.filter(r => r.id !== record.id).flatMap(r => r.pages || []).map(p => p.id));
+    (record.pages || []).filter(p => !shared.has(p.id)).forEach(p => deleteImage(p.id).catch(e => console.warn("Could not delete page image", e)));
+  };
+
+  const restoreRecordVersion = (record: InvoiceRecord, version: RecordVersion) => {
+    const restored = restoreVersion(record, version);
+    saveRecord(restored);
+    setItems(restored.items);
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setIssuedPurchaseOrders(restored.purchaseOrders || []);
+    setShowVersions(false);
+    setToastMessage(`Restored revision ${version.revision} as a draft`);
+  };
+
+  // A failed upload goes to the outbox to be retried with backoff. The idempotency key
+  // lets the script skip an upload it already wrote, so retries can't append twice.
+  const uploadToDestination = async (dataToUpload: InvoiceItem[], destination: ExportDestination, baseKey: string, label: string, recordId?: string): Promise<DestinationResult> => {
+    const report = { destinationId: destination.id, name: destination.name || 'Unnamed destination', rows: dataToUpload.length };
+    const rows = toUploadRows(dataToUpload, catalog);
+    const key = destinationKey(baseKey, destination.id);
+
+    if (isWebhookDestination(destination)) {
+      if (!destination.webhook.url.trim()) {
+        return { ...report, status: 'skipped', error: "No webhook URL" };
+      }
+      const request = await buildWebhookRequest(destination.webhook, buildWebhookContext(dataToUpload, baseKey, label, catalog), key);
+      console.log("Sending webhook:", report.name, request.url);
+      const result = await sendWebhookRequest(request);
+      if (result.ok) return { ...report, status: 'sent' };
+
+      console.error("Webhook failed:", result.error);
+      const entry = { ...createOutboxEntry(key, `${label} → ${report.name}`, { scriptUrl: '' }, rows, result), request, recordId };
+      setOutbox(prev => prev.some(e => e.id === entry.id) ? prev : [...prev, entry]);
+      return { ...report, status: 'queued', error: result.error };
+    }
+
+    const target = toUploadTarget(destination, settings);
+    if (!target.scriptUrl) {
+      return { ...report, status: 'skipped', error: "No script URL" };
+    }
+
+    console.log("Uploading to:", report.name, target.scriptUrl);
+    const result = await postRows(target, rows, key);
+    if (result.ok) {
+      return {
+        ...report,
+        status: result.status === 'duplicate' ? 'duplicate' : 'sent',
+        outcomes: result.outcomes && toRowOutcomes(rows, result.outcomes),
+      };
+    }
+
+    console.error("Script returned error:", result.error);
+    const entry = { ...createOutboxEntry(key, `${label} → ${report.name}`, target, rows, result), recordId };
+    setOutbox(prev => prev.some(e => e.id === entry.id) ? prev : [...prev, entry]);
+    return { ...report, status: 'queued', error: result.error };
+  };
+
+  // Routes items by vendor and uploads each group to its destination, one after another
+  // (the script holds a lock per upload anyway)
+  const exportToDestinations = async (dataToUpload: InvoiceItem[], baseKey: string, label: string, recordId?: string) => {
+    const results: DestinationResult[] = [];
+    for (const { destination, items: routed } of routeItems(dataToUpload, settings)) {
+      results.push(await uploadToDestination(routed, destination, baseKey, label, recordId));
+    }
+    return results;
+  };
+
+  const drainOutbox = async (force = false) => {
+    if (drainingOutboxRef.current || !navigator.onLine) return;
+    drainingOutboxRef.current = true;
 
     try {
-      console.log("Uploading to:", currentScriptUrl);
-      const response = await fetch(currentScriptUrl, {
-        method: 'POST',
-        // Standard mode to read response, requires "Anyone" access on script
-        headers: { 'Content-Type': 'text/plain' }, 
-        body: JSON.stringify({ items: payload })
-      });
-      
-      const text = await response.text();
-      console.log("Script Response:", text);
-      
-      if (text.includes("Success")) {
-        return true;
-      } else {
-        console.error("Script returned error:", text);
-        return false;
+      const due = outboxRef.current.filter(entry => force ? entry.status === 'pending' : isOutboxEntryDue(entry));
+      const sent = new Set<string>();
+      for (const entry of due) {
+        const result = entry.request ? await sendWebhookRequest(entry.request) : await postRows(entry, entry.rows, entry.id);
+        if (result.ok) {
+          sent.add(entry.id);
+          setOutbox(prev => prev.filter(e => e.id !== entry.id));
+          setToastMessage(`Outbox: ${entry.label} sent ✅${result.outcomes ? ` (${summarizeOutcomes(toRowOutcomes(entry.rows, result.outcomes))})` : ''}`);
+
+          // The record counts as exported once its last queued upload is through
+          const waiting = outboxRef.current.some(e => e.recordId && e.recordId === entry.recordId && !sent.has(e.id));
+          if (entry.recordId && !waiting) {
+            setHistory(prev => prev.map(r => r.id === entry.recordId && r.status === 'Export-failed' ? markExported(r) : r));
+          }
+        } else {
+          setOutbox(prev => prev.map(e => e.id === entry.id ? scheduleRetry(e, result) : e));
+        }
       }
-    } catch (e) {
-      console.error("Upload Error:", e);
-      return false;
+    } finally {
+      drainingOutboxRef.current = false;
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const retryOutboxEntry = (id: string) => {
+    setOutbox(prev => prev.map(e => e.id === id ? { ...e, status: 'pending', attempts: 0, nextAttemptAt: Date.now() } : e));
+  };
+
+  const updateScanJob = (id: string, changes: Partial<ScanJob>) => {
+    setScanQueue(prev => prev.map(job => job.id === id ? { ...job, ...changes } : job));
+  };
+
+  // Frees the job's concurrency slot before its status changes: the status change is what
+  // re-runs the scheduler, so the next queued page starts even while this one's upload runs
+  const finishScanJob = (id: string, changes: Partial<ScanJob>) => {
+    activeScanJobsRef.current.delete(id);
+    updateScanJob(id, changes);
+  };
+
+  const processScanJob = async (job: ScanJob) => {
+    const pageLabel = job.pageCount && job.pageCount > 1 ? `${job.fileName} p.${job.pageNumber}` : job.fileName;
 
-    setIsProcessing(true);
-    setLoadingStep('analyzing');
-    setView(AppView.SCAN);
-    
     try {
-      let base64Data = "";
-      let mimeType = file.type;
+      const { base64Data, mimeType } = await prepareFileForExtraction(job.file, job.pageNumber);
 
-      // Check if it is an image and compress it
-      if (file.type.startsWith('image/')) {
+      // Keep the page image so rows can be checked against the original later.
+      // PDF pages arrive here already rendered to images, so they're kept too.
+      let pageId: string | undefined;
+      if (mimeType.startsWith('image/')) {
+        const page: ScanPage = { id: `page-${job.id}`, fileName: job.fileName, mimeType, createdAt: new Date().toISOString() };
         try {
-          base64Data = await resizeImage(file);
-          mimeType = 'image/jpeg'; // Canvas exports as jpeg
-        } catch (resizeErr) {
-          console.warn("Resize failed, falling back to original", resizeErr);
-          // Fallback to original read
-          base64Data = await new Promise((resolve) => {
-            const reader = new FileReader();
-            reader.onload = (e) => resolve((e.target?.result as string).split(',')[1]);
-            reader.readAsDataURL(file);
-          }) as string;
+          await saveImage(page.id, { base64Data, mimeType });
+          pageId = page.id;
+          setScanPages(prev => prev.some(p => p.id === page.id) ? prev : [...prev, page]);
+        } catch (storeErr) {
+          console.warn("Could not store page image", storeErr);
         }
-      } else {
-        // Handle PDF or other files without resize
-         base64Data = await new Promise((resolve) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve((e.target?.result as string).split(',')[1]);
-          reader.readAsDataURL(file);
-        }) as string;
       }
-      
-      try {
-        const extractedItems = await extractInvoiceData(base64Data, mimeType);
-        
-        const vendor = extractedItems[0]?.vendor || "Unknown Vendor";
-        const successMessage = `Scanned ${extractedItems.length} items for ${vendor}`;
-
-        // AUTO EXPORT LOGIC
-        if (settings.autoExport && settings.scriptUrl) {
-          setLoadingStep('uploading');
-          // Small delay to let UI update
-          await new Promise(r => setTimeout(r, 500));
-          
-          const success = await uploadToScript(extractedItems, settings.scriptUrl);
-          
-          if (success) {
-            setToastMessage("Auto-Export Successful! ✅");
-          } else {
-            setToastMessage("Auto-Export Failed. Check settings.");
-            setShowExportModal(true); // Fallback to manual
-          }
-        } else if (settings.autoExport && !settings.scriptUrl) {
-           setToastMessage("Skipped Auto-Export: Script URL not set in Settings");
+
+      const scannedItems = await extractInvoiceData(base64Data, mimeType, {
+        provider: settings.extractionProvider,
+        recordResponses: settings.recordResponses,
+        vendorProfiles,
+        context: { catalog, parMemory, orderRules }
+      });
+      const extractedItems = pageId ? scannedItems.map(item => ({ ...item, pageId })) : scannedItems;
+
+      // Rows already in the review (overlapping or re-scanned pages) wait for the merge dialog
+      // instead of being auto-exported a second time
+      const newRows = withoutDuplicates(itemsRef.current, extractedItems);
+      const heldBack = extractedItems.length - newRows.length;
+
+      // Merge as soon as each page lands, so a later failure can't discard finished pages.
+      // The ref is updated right away: pages finishing before the next render check against it.
+      itemsRef.current = [...itemsRef.current, ...extractedItems];
+      setItems(prev => [...prev, ...extractedItems]);
+      finishScanJob(job.id, { status: 'done', itemCount: extractedItems.length, error: undefined });
+
+      // Rows with low-confidence cells nobody has checked yet aren't sent either;
+      // they go out with the manual export once reviewed
+      const uncertainIds = new Set(getUncertainCells(newRows).map(cell => cell.itemId));
+      const confidentRows = newRows.filter(row => !uncertainIds.has(row.id));
+      const uncertainNote = uncertainIds.size > 0 ? ` — ${uncertainIds.size} uncertain row(s) held back, review them before exporting` : '';
+
+      // AUTO EXPORT LOGIC (per page, so retried pages are exported too)
+      if (settings.autoExport && hasUploadDestination(settings) && newRows.length > 0) {
+        if (confidentRows.length === 0) {
+          setToastMessage(`Auto-Export for ${pageLabel}: nothing sent${uncertainNote}`);
+          return;
+        }
+
+        const results = await exportToDestinations(confidentRows, job.id, pageLabel);
+        const problems = results.filter(r => r.status === 'queued' || r.status === 'skipped');
+
+        if (problems.length === 0) {
+          const upserted = results.flatMap(r => r.outcomes || []);
+          setToastMessage(`Auto-Export Successful! ✅ (${pageLabel})${upserted.length > 0 ? ` — ${summarizeOutcomes(upserted)}` : ''}${heldBack ? ` — ${heldBack} duplicate row(s) held for merge` : ''}${uncertainNote}`);
         } else {
-           setToastMessage(successMessage);
+          setToastMessage(`Auto-Export for ${pageLabel}: ${problems.map(r => `${r.name} ${r.status === 'queued' ? 'failed, queued for retry' : `skipped (${r.error})`}`).join('; ')}${uncertainNote}`);
         }
+      }
+    } catch (error) {
+      console.error(error);
+      finishScanJob(job.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : "Failed to extract data. Use a clearer photo or try a smaller file."
+      });
+    }
+  };
 
-        // Update state finally
-        setItems(prev => {
-          if (scanMode === 'append') {
-            return [...prev, ...extractedItems];
-          } else {
-            return extractedItems;
-          }
-        });
-
-        setView(AppView.REVIEW);
-      } catch (error) {
-        console.error(error);
-        alert("Failed to extract data. Use a clearer photo or try a smaller file.");
-        if (scanMode === 'append') setView(AppView.REVIEW);
-        else setView(AppView.DASHBOARD);
-      } finally {
-        setIsProcessing(false);
-        setLoadingStep(null);
+  // Start queued pages while staying under the concurrency cap
+  useEffect(() => {
+    const available = MAX_CONCURRENT_SCANS - activeScanJobsRef.current.size;
+    if (available <= 0) return;
+
+    const toStart = scanQueue.filter(job => job.status === 'queued').slice(0, available);
+    if (toStart.length === 0) return;
+
+    toStart.forEach(job => activeScanJobsRef.current.add(job.id));
+    setScanQueue(prev => prev.map(job => toStart.some(s => s.id === job.id) ? { ...job, status: 'analyzing' } : job));
+    toStart.forEach(processScanJob);
+  }, [scanQueue]);
+
+  // Once every page has finished, move on to Review. Failed pages keep the queue open for retries.
+  useEffect(() => {
+    if (view !== AppView.SCAN || scanQueue.length === 0) return;
+    if (scanQueue.some(job => job.status === 'queued' || job.status === 'analyzing' || job.status === 'failed')) return;
+
+    if (settings.autoExport && !hasUploadDestination(settings)) {
+      setToastMessage("Skipped Auto-Export: Script URL not set in Settings");
+    } else if (!settings.autoExport) {
+      const total = scanQueue.reduce((sum, job) => sum + (job.itemCount || 0), 0);
+      setToastMessage(`Scanned ${total} items from ${scanQueue.length} page(s)`);
+    }
+
+    setScanQueue([]);
+    setView(AppView.REVIEW);
+    openMergeDialog(findDuplicateConflicts(items));
+  }, [scanQueue, view]);
+
+  const openMergeDialog = (conflicts: MergeConflict[]) => {
+    if (conflicts.length === 0) return;
+    setMergeChoices(Object.fromEntries(conflicts.map(c => [c.newer.id, 'newer' as MergeChoice])));
+    setMergeConflicts(conflicts);
+  };
+
+  const applyMerge = () => {
+    const { items: merged, kept } = applyMergeChoices(items, mergeConflicts, mergeChoices, catalog);
+    setItems(merged);
+    setToastMessage(kept.length > 0
+      ? `Merged ${mergeConflicts.length - kept.length} duplicate row(s); kept both rows for ${kept.map(c => c.older.description).join(', ')} (units can't be added up)`
+      : `Merged ${mergeConflicts.length} duplicate row(s)`);
+    setMergeConflicts([]);
+  };
+
+  const retryScanJob = (id: string) => {
+    updateScanJob(id, { status: 'queued', error: undefined });
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length === 0) return;
+
+    try {
+      const jobs = (await Promise.all(files.map(createScanJobs))).flat();
+
+      if (scanMode === 'new') {
+        setCurrentRecordId(null);
+        setItems([]);
+        setEditHistory(EMPTY_EDIT_HISTORY);
+        setScanPages([]);
+        setIssuedPurchaseOrders([]);
+        setScanQueue(jobs);
+      } else {
+        setScanQueue(prev => [...prev.filter(job => job.status !== 'done'), ...jobs]);
       }
+      setView(AppView.SCAN);
     } catch (error) {
       console.error(error);
-      setIsProcessing(false);
-      setLoadingStep(null);
       alert("Error reading file.");
     }
   };
 
+  // Review edits go through here so they can be undone
+  const applyEdit = (command: EditCommand) => {
+    setItems(prev => redoCommand(prev, command));
+    setEditHistory(prev => recordEdit(prev, command));
+  };
+
   const updateItem = (id: string, field: keyof InvoiceItem, value: any) => {
-    setItems(prev => prev.map(item => {
-      if (item.id !== id) return item;
-      
-      const updated = { ...item, [field]: value };
-      
-      if (field === 'inStock' || field === 'par') {
-        const inStock = field === 'inStock' ? Number(value) : item.inStock;
-        const par = field === 'par' ? Number(value) : item.par;
-        updated.order = Math.max(0, par - inStock);
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+
+    // A PAR typed in by staff is treated as confirmed and remembered for the next scan.
+    // Undo doesn't take it back out; the next confirmed PAR replaces it.
+    if (field === 'par') setParMemory(prev => rememberPar(prev, item, Number(value)));
+
+    let updated: InvoiceItem = { ...item, [field]: value };
+    if (field === 'par') updated.parSource = 'memory';
+
+    // Editing a cell counts as reviewing it
+    if (CONFIDENCE_FIELDS.includes(field as ConfidenceField)) {
+      updated = markFieldReviewed(updated, field as ConfidenceField);
+    }
+    
+    if (field === 'inStock' || field === 'par') {
+      const inStock = field === 'inStock' ? Number(value) : item.inStock;
+      const par = field === 'par' ? Number(value) : item.par;
+      updated.rawNeed = Math.max(0, par - inStock);
+      updated.order = resolveOrder(updated, updated.rawNeed, orderRules);
+    } else if (field === 'order') {
+      // A typed order is taken as-is; there's no separate need to show
+      updated.rawNeed = undefined;
+    }
+    applyEdit({ type: 'update', label: `edit ${item.description || 'row'}`, field, before: item, after: updated });
+  };
+
+  const revertToScanned = (id: string, field: ScannedField) => {
+    const item = items.find(i => i.id === id);
+    if (!item?.scanned) return;
+    applyEdit({ type: 'revert', label: `revert ${item.description || 'row'}`, field, before: item, after: revertField(item, field) });
+  };
+
+  const undoEdit = () => {
+    const command = editHistory.undo[editHistory.undo.length - 1];
+    if (!command) return;
+    setItems(prev => undoCommand(prev, command));
+    setEditHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, command] }));
+    setToastMessage(`Undid ${command.label}`);
+  };
+
+  const redoEdit = () => {
+    const command = editHistory.redo[editHistory.redo.length - 1];
+    if (!command) return;
+    setItems(prev => redoCommand(prev, command));
+    setEditHistory(prev => ({ undo: [...prev.undo, command], redo: prev.redo.slice(0, -1) }));
+    setToastMessage(`Redid ${command.label}`);
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) in Review. Inside a text field the browser's own undo is left alone.
+  useEffect(() => {
+    if (view !== AppView.REVIEW) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoEdit();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoEdit();
       }
-      return updated;
-    }));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const markReviewed = (id: string, field: ConfidenceField) => {
+    setItems(prev => prev.map(item => item.id === id ? markFieldReviewed(item, field) : item));
+  };
+
+  // Focus the first low-confidence cell nobody has looked at yet.
+  // Leaving a cell (blur) marks it reviewed, so repeated jumps walk through the list.
+  const jumpToNextUncertain = () => {
+    const [next] = getUncertainCells(items);
+    if (!next) {
+      setToastMessage("All uncertain cells reviewed ✅");
+      return;
+    }
+    const el = document.getElementById(getCellElementId(next.itemId, next.field)) as HTMLInputElement | null;
+    if (el) {
+      el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      el.focus();
+      el.select();
+    }
+  };
+
+  // Every way of sending the review out asks first while low-confidence cells are unchecked
+  const confirmUncertainCells = (action: string) => {
+    const uncertainCount = getUncertainCells(items).length;
+    return uncertainCount === 0 || window.confirm(`${uncertainCount} low-confidence cell(s) haven't been reviewed yet. ${action} anyway?`);
   };
 
   const deleteItem = (id: string) => {
-    setItems(prev => prev.filter(i => i.id !== id));
+    const index = items.findIndex(i => i.id === id);
+    if (index === -1) return;
+    applyEdit({ type: 'delete', label: `delete ${items[index].description || 'row'}`, item: items[index], index });
   };
 
   const addItem = () => {
@@ -302,33 +857,115 @@ const App: React.FC = () => {
       order: 10,
       price: 0
     };
-    setItems([...items, newItem]);
+    applyEdit({ type: 'add', label: 'add row', item: newItem, index: items.length });
   };
 
   const sortItems = () => {
-    setItems(prev => [...prev].sort((a, b) => 
+    const sorted = [...items].sort((a, b) => 
       a.description.toLowerCase().localeCompare(b.description.toLowerCase())
-    ));
+    );
+    applyEdit({ type: 'reorder', label: 'sort', before: items.map(i => i.id), after: sorted.map(i => i.id) });
     setToastMessage("Sorted by Description");
   };
 
-  const getSortedExportData = () => {
-    return [...items]
-      .sort((a, b) => a.description.toLowerCase().localeCompare(b.description.toLowerCase()))
-      .map(i => ({
-        inStock: i.inStock,
-        par: i.par,
-        order: i.order,
-        description: i.description,
-        vendor: i.vendor,
-        price: i.price
-      }));
+  const getSortedExportData = (): ExportRow[] => toExportRows(items, catalog);
+
+  const downloadExport = () => {
+    const conflicts = findDuplicateConflicts(items);
+    if (conflicts.length > 0) {
+      setShowExportModal(false);
+      openMergeDialog(conflicts);
+      return;
+    }
+
+    const exporter = getExporter(settings.exportFormat);
+    const columns = settings.exportColumns[exporter.id];
+    if (columns.length === 0) {
+      setToastMessage("Select at least one column to export");
+      return;
+    }
+    if (!confirmUncertainCells('Download')) return;
+
+    try {
+      downloadBlob(exporter.export(getSortedExportData(), columns), exportFileName(exporter));
+      setToastMessage(`Downloaded ${exporter.label} file`);
+    } catch (e) {
+      console.error("Export failed", e);
+      setToastMessage(`Could not create the ${exporter.label} file.`);
+    }
+  };
+
+  const generatePurchaseOrders = () => {
+    const conflicts = findDuplicateConflicts(items);
+    if (conflicts.length > 0) {
+      setToastMessage("Resolve duplicate rows before generating POs");
+      openMergeDialog(conflicts);
+      return;
+    }
+    if (!confirmUncertainCells('Generate POs')) return;
+
+    // Never reissue a number, even if the counter was cleared but history still has POs
+    const highestIssued = Math.max(lastPoNumber, ...history.flatMap(r => r.purchaseOrders || []).map(po => parsePoNumber(po.number)));
+    const { orders, lastNumber } = buildPurchaseOrders(items, issuedPurchaseOrders, highestIssued, catalog);
+    if (orders.length === 0) {
+      setToastMessage("Nothing to order — every Order quantity is 0");
+      return;
+    }
+
+    setPurchaseOrders(orders);
+    setIssuedPurchaseOrders(orders.map(toPurchaseOrderRef));
+    setLastPoNumber(lastNumber);
+    setShowPurchaseOrders(true);
+  };
+
+  const downloadPurchaseOrder = async (po: PurchaseOrder, format: 'pdf' | 'eml') => {
+    const contact = findVendorContact(vendorContacts, po.vendor);
+    try {
+      const blob = format === 'pdf' ? purchaseOrderPdf(po, contact) : await purchaseOrderEml(po, contact);
+      downloadBlob(blob, purchaseOrderFileName(po, format));
+    } catch (e) {
+      console.error("PO generation failed", e);
+      setToastMessage(`Could not create ${po.number}.`);
+    }
+  };
+
+  const editVendorContact = (vendor: string) => {
+    let contact = findVendorContact(vendorContacts, vendor);
+    if (!contact) {
+      contact = createVendorContact(vendor);
+      setVendorContacts(prev => [...prev, contact!]);
+    }
+    setEditingContactId(editingContactId === contact.id ? null : contact.id);
+  };
+
+  const updateVendorContact = (id: string, changes: Partial<VendorContact>) => {
+    setVendorContacts(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
   };
 
-  const copyToClipboard = async () => {
+  const updateExportColumns = (format: ExportFormat, columns: ExportColumnSetting[]) => {
+    setSettings(prev => ({ ...prev, exportColumns: { ...prev.exportColumns, [format]: columns } }));
+  };
+
+  const moveExportColumn = (format: ExportFormat, index: number, direction: -1 | 1) => {
+    const columns = [...settings.exportColumns[format]];
+    const target = index + direction;
+    if (target < 0 || target >= columns.length) return;
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    updateExportColumns(format, columns);
+  };
+
+  // `confirmed` when the caller already asked about unreviewed cells (the manual export)
+  const copyToClipboard = async (confirmed = false) => {
+    const conflicts = findDuplicateConflicts(items);
+    if (conflicts.length > 0) {
+      openMergeDialog(conflicts);
+      return false;
+    }
+    if (!confirmed && !confirmUncertainCells('Copy')) return false;
+
     const exportData = getSortedExportData();
-    // Google Sheets format: Tab separated (Vendor | Description | In Stock | PAR | Order | Price)
-    const tsvContent = exportData.map(i => `${i.vendor}\t${i.description}\t${i.inStock}\t${i.par}\t${i.order}\t${i.price}`).join('\n');
+    // Google Sheets format: tab separated, in the same column order the script writes
+    const tsvContent = exportData.map(row => settings.script.columns.map(col => row[col]).join('\t')).join('\n');
     try {
       await navigator.clipboard.writeText(tsvContent);
       setToastMessage("Data copied! (Sorted by name)");
@@ -341,88 +978,71 @@ const App: React.FC = () => {
   };
 
   const handleManualExport = async () => {
-    // 1. Save history
-    const newRecord: InvoiceRecord = {
-      id: Date.now().toString(),
-      date: new Date().toISOString(),
-      items: items, 
-      totalItems: items.length,
-      status: 'Uploaded'
-    };
-    setHistory(prev => [newRecord, ...prev]);
+    const conflicts = findDuplicateConflicts(items);
+    if (conflicts.length > 0) {
+      setToastMessage("Resolve duplicate rows before exporting");
+      openMergeDialog(conflicts);
+      return;
+    }
+
+    if (!confirmUncertainCells('Export')) return;
+
+    // 1. Save the review to its record (a reopened record is updated, not duplicated)
+    const content: ReviewContent = { items, pages: scanPages, purchaseOrders: issuedPurchaseOrders };
+    const existing = history.find(r => r.id === currentRecordId);
+    const record = !existing ? createDraftRecord(content) : recordMatchesReview(existing, content) ? existing : updateDraft(existing, content);
+    saveRecord(record);
 
     // 2. Try Script Upload
-    if (settings.scriptUrl) {
+    if (hasUploadDestination(settings)) {
       setLoadingStep('uploading');
       setIsProcessing(true);
       
-      const success = await uploadToScript(items, settings.scriptUrl);
+      const results = await exportToDestinations(items, exportKey(record), recordLabel(record), record.id);
       setIsProcessing(false);
       setLoadingStep(null);
+      saveRecord(markExported(record, exportErrorFromResults(results)));
+
+      // With several destinations each one gets its own line in the results dialog,
+      // and upserts list which rows were updated in place
+      if (results.length > 1 || results.some(r => r.outcomes)) {
+        setExportResults(results);
+        return;
+      }
       
-      if (success) {
+      if (results[0]?.status === 'sent' || results[0]?.status === 'duplicate') {
         setToastMessage("Sent to Sheet! (Sorted by name)");
-        setTimeout(() => setView(AppView.DASHBOARD), 1000);
-        return;
       } else {
-        setToastMessage("Auto-upload failed. Switching to manual copy.");
+        // Pasting by hand as well would double the rows once the outbox gets through
+        setToastMessage("Upload failed. Queued in the outbox — it will retry automatically.");
       }
+      setTimeout(() => setView(AppView.DASHBOARD), 1000);
+      return;
     }
 
     // 3. Fallback to clipboard
-    await copyToClipboard();
+    const copied = await copyToClipboard(true);
+    saveRecord(markExported(record, copied ? undefined : "Couldn't copy to the clipboard"));
+    setExportModalMode('paste');
     setShowExportModal(true);
   };
 
-  // Pre-configured script code for the user
-  const SCRIPT_CODE = `// COPY ALL OF THIS CODE
-function doPost(e) {
-  // 1. SAFEGUARD FOR MANUAL RUNS
-  if (typeof e === 'undefined') {
-    return ContentService.createTextOutput("Error: Event object 'e' is undefined. You cannot run this function manually from the editor. It must be triggered by the App.");
-  }
-
-  var lock = LockService.getScriptLock();
-  // Wait for up to 10 seconds for other processes to finish.
-  if (!lock.tryLock(10000)) {
-     return ContentService.createTextOutput("Error: Could not obtain lock.");
-  }
-
-  try {
-    // AUTO-CONFIGURED FOR YOUR SHEET ID:
-    var sheet = SpreadsheetApp.openById("1c9qt5RejeAZ_tn-gXhFaDwVSIgZdmgRPojKD1LqhRYc").getSheets()[0];
-    
-    // Parse the data
-    var rawData = e.postData ? e.postData.contents : null;
-    if (!rawData) return ContentService.createTextOutput("Error: No data received.");
+  const renderScriptOutdatedNotice = () => deployedScript && (
+    <div className="flex items-start gap-2 text-amber-700 text-xs bg-amber-50 border border-amber-200 p-3 rounded">
+      <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+      <div>
+        <p className="font-bold">
+          {deployedScript.version < SCRIPT_VERSION
+            ? `The deployed script is v${deployedScript.version}; this app generates v${SCRIPT_VERSION}.`
+            : 'The deployed script was built from different sheet settings.'}
+        </p>
+        <p>Copy the new code into the Apps Script editor, then Deploy &rarr; Manage Deployments &rarr; Edit &rarr; New Version.</p>
+      </div>
+    </div>
+  );
 
-    var data = JSON.parse(rawData);
-    
-    if (data.items && data.items.length > 0) {
-      var rows = data.items.map(function(item) {
-        return [
-          item.vendor || "", 
-          item.description || "", 
-          item.inStock || 0, 
-          item.par || 0, 
-          item.order || 0, 
-          item.price || 0
-          // Removed Date Timestamp as requested
-        ];
-      });
-      
-      // Batch write for better performance
-      sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, rows[0].length).setValues(rows);
-    }
-    
-    return ContentService.createTextOutput("Success").setMimeType(ContentService.MimeType.TEXT);
-    
-  } catch (err) {
-    return ContentService.createTextOutput("Error: " + err.toString());
-  } finally {
-    lock.releaseLock();
-  }
-}`;
+  // The newest draft with something in it
+  const latestDraft = history.find(r => r.status === 'Draft' && r.totalItems > 0);
 
   const renderDashboard = () => (
     <div className="space-y-6">
@@ -456,6 +1076,60 @@ function doPost(e) {
         <div className="absolute -right-10 -bottom-10 w-40 h-40 bg-white opacity-10 rounded-full blur-2xl"></div>
       </div>
 
+      {scriptOutdated && (
+        <div className="cursor-pointer" onClick={() => setView(AppView.SETTINGS)}>
+          {renderScriptOutdatedNotice()}
+        </div>
+      )}
+
+      {outbox.length > 0 && (
+        <Card className="p-4 space-y-3 border-amber-200 bg-amber-50/50">
+          <div className="flex justify-between items-center">
+            <h2 className="font-bold text-gray-800 flex items-center gap-2">
+              <Upload className="w-5 h-5 text-amber-600" /> Outbox ({outbox.length})
+            </h2>
+            {isOnline ? (
+              <button onClick={() => drainOutbox(true)} className="text-xs text-blue-600 hover:underline">Retry now</button>
+            ) : (
+              <span className="text-xs text-gray-500">Offline — will send on reconnect</span>
+            )}
+          </div>
+          {outbox.map(entry => {
+            const minutes = Math.max(0, Math.ceil((entry.nextAttemptAt - Date.now()) / 60000));
+            return (
+              <div key={entry.id} className="flex justify-between items-center text-sm border-t border-amber-100 pt-2">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-800">{entry.label} • {entry.rows.length} row(s)</div>
+                  <div className={`text-xs truncate ${entry.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {entry.status === 'failed'
+                      ? `Stopped after ${entry.attempts} attempt(s): ${entry.lastError || 'unknown error'}`
+                      : `Attempt ${entry.attempts} of ${MAX_UPLOAD_ATTEMPTS} failed${entry.lastError ? ` (${entry.lastError})` : ''} • next try ${minutes > 0 ? `in ${minutes} min` : 'soon'}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {entry.status === 'failed' && (
+                    <button onClick={() => retryOutboxEntry(entry.id)} className="p-1 text-gray-400 hover:text-blue-600" title="Retry">
+                      <RotateCw className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button 
+                    onClick={() => {
+                      if (window.confirm(`Discard the queued upload "${entry.label}"? Its rows won't reach the sheet.`)) {
+                        setOutbox(prev => prev.filter(e => e.id !== entry.id));
+                      }
+                    }} 
+                    className="p-1 text-gray-400 hover:text-red-500" 
+                    title="Discard"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </Card>
+      )}
+
       <div>
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
@@ -466,6 +1140,18 @@ function doPost(e) {
           </Button>
         </div>
 
+        {latestDraft && (
+          <Card className="p-4 mb-3 flex justify-between items-center border-orange-200 bg-orange-50/50">
+            <div>
+              <div className="font-semibold text-gray-800">Unfinished review</div>
+              <div className="text-xs text-gray-500">
+                {recordLabel(latestDraft)} • {latestDraft.totalItems} Items • saved {new Date(latestDraft.updatedAt || latestDraft.date).toLocaleString()}
+              </div>
+            </div>
+            <Button onClick={() => openRecord(latestDraft)} className="px-3 py-2 text-sm">Resume</Button>
+          </Card>
+        )}
+
         {history.length === 0 ? (
           <div className="text-center py-10 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200">
             <FileText className="w-12 h-12 mx-auto mb-2 opacity-20" />
@@ -473,161 +1159,1824 @@ function doPost(e) {
           </div>
         ) : (
           <div className="grid gap-3">
-            {history.map(record => (
-              <Card key={record.id} className="p-4 flex justify-between items-center hover:shadow-md transition-shadow cursor-pointer" >
-                 <div onClick={() => {
-                   setItems(record.items);
-                   setView(AppView.REVIEW);
-                 }} className="flex-1">
-                   <div className="font-semibold text-gray-800">
-                     Invoice #{record.id.slice(-6)}
-                   </div>
-                   <div className="text-xs text-gray-500">
-                     {new Date(record.date).toLocaleString()} • {record.totalItems} Items
-                   </div>
+            {history.slice(0, RECENT_RECORDS_SHOWN).map(record => renderRecordCard(record))}
+            {history.length > RECENT_RECORDS_SHOWN && (
+              <Button variant="secondary" onClick={() => setView(AppView.HISTORY)} className="w-full">
+                <History className="w-4 h-4" /> All History ({history.length})
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  // One history record: opens it in Review. In compare mode a tap selects it instead.
+  const renderRecordCard = (record: InvoiceRecord, details?: React.ReactNode) => {
+    const selecting = compareMode && view === AppView.HISTORY;
+    const selected = selecting && compareIds.includes(record.id);
+    return (
+      <Card key={record.id} className={`p-4 flex justify-between items-center hover:shadow-md transition-shadow cursor-pointer ${selected ? 'ring-2 ring-blue-500' : ''}`} >
+         <div onClick={() => selecting ? toggleCompareRecord(record.id) : openRecord(record)} className="flex-1 min-w-0">
+           <div className="font-semibold text-gray-800">
+             {recordLabel(record)}
+             {(record.revision || 1) > 1 && <span className="ml-1 text-xs font-normal text-gray-400">rev {record.revision}</span>}
+           </div>
+           <div className="text-xs text-gray-500">
+             {new Date(record.date).toLocaleString()} • {record.totalItems} Items
+           </div>
+           {record.purchaseOrders && record.purchaseOrders.length > 0 && (
+             <div className="text-xs text-blue-600 mt-0.5">
+               {record.purchaseOrders.map(po => po.number).join(', ')}
+             </div>
+           )}
+           {details}
+         </div>
+         <div className="flex items-center gap-1">
+           <Badge type={RECORD_STATUS_BADGES[record.status].type} title={record.exportError}>
+             {RECORD_STATUS_BADGES[record.status].label}
+           </Badge>
+           {record.status === 'Draft' && !selecting && (
+             <button onClick={() => discardDraft(record)} className="p-1 text-gray-300 hover:text-red-500" title="Discard draft">
+               <Trash2 className="w-4 h-4" />
+             </button>
+           )}
+         </div>
+      </Card>
+    );
+  };
+
+  const toggleCompareRecord = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+  };
+
+  const renderHistory = () => {
+    const vendors = historyVendors(history);
+    const records = filterRecords(history, historyFilter);
+    const searching = historyFilter.query.trim() !== '' || historyFilter.vendor !== '';
+    const [olderRecord, newerRecord] = history
+      .filter(r => compareIds.includes(r.id))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    return (
+      <div className="space-y-4 pb-20">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => setView(AppView.DASHBOARD)} className="pl-0">
+              <ArrowLeft className="w-5 h-5" /> Back
+            </Button>
+            <h2 className="text-2xl font-bold">History</h2>
+          </div>
+          <Button
+            variant={compareMode ? 'primary' : 'secondary'}
+            onClick={() => {
+              setCompareMode(!compareMode);
+              setCompareIds([]);
+            }}
+            className="px-3 py-2 text-sm"
+          >
+            <GitCompare className="w-4 h-4" /> {compareMode ? 'Done' : 'Compare'}
+          </Button>
+        </div>
+
+        <Input
+          placeholder="Search items, SKUs or vendors"
+          value={historyFilter.query}
+          onChange={(e) => setHistoryFilter(prev => ({ ...prev, query: e.target.value }))}
+        />
+        <div className="grid grid-cols-3 gap-2">
+          <Select
+            label="Vendor"
+            value={historyFilter.vendor}
+            onChange={(e) => setHistoryFilter(prev => ({ ...prev, vendor: e.target.value }))}
+          >
+            <option value="">All vendors</option>
+            {vendors.map(vendor => <option key={vendor} value={vendor}>{vendor}</option>)}
+          </Select>
+          <Input
+            label="From"
+            type="date"
+            value={historyFilter.from}
+            onChange={(e) => setHistoryFilter(prev => ({ ...prev, from: e.target.value }))}
+          />
+          <Input
+            label="To"
+            type="date"
+            value={historyFilter.to}
+            onChange={(e) => setHistoryFilter(prev => ({ ...prev, to: e.target.value }))}
+          />
+        </div>
+
+        {compareMode && (
+          <div className="text-sm text-blue-700 bg-blue-50 p-3 rounded-lg">
+            {compareIds.length < 2
+              ? `Pick ${2 - compareIds.length} more record(s) to compare.`
+              : <button onClick={() => setShowComparison(true)} className="font-bold hover:underline">Compare the 2 selected records &rarr;</button>}
+          </div>
+        )}
+
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{records.length} of {history.length} record(s)</span>
+          {(searching || historyFilter.from || historyFilter.to) && (
+            <button onClick={() => setHistoryFilter(EMPTY_HISTORY_FILTER)} className="text-blue-600 hover:underline">Clear filters</button>
+          )}
+        </div>
+
+        {records.length === 0 && (
+          <div className="text-center py-10 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+            <Search className="w-12 h-12 mx-auto mb-2 opacity-20" />
+            <p>No records match.</p>
+          </div>
+        )}
+
+        <div className="grid gap-3">
+          {records.map(record => {
+            const totals = recordTotals(record, catalog);
+            const matches = searching ? matchingItems(record, historyFilter) : [];
+            return renderRecordCard(record, (
+              <>
+                <div className="text-xs text-gray-600 mt-0.5">
+                  {totals.ordered} to order ({totals.orderQuantity} units)
+                  {totals.value > 0 && <> • est. <strong>{formatMoney(totals.value)}</strong></>}
+                  {totals.unpriced > 0 && <span className="text-gray-400"> • {totals.unpriced} unpriced</span>}
+                </div>
+                {matches.length > 0 && (
+                  <div className="text-xs text-gray-500 mt-1 truncate">
+                    {matches.slice(0, 3).map(item => `${item.description} (${item.inStock}/${item.par}, order ${item.order})`).join(' • ')}
+                    {matches.length > 3 && ` +${matches.length - 3} more`}
+                  </div>
+                )}
+              </>
+            ));
+          })}
+        </div>
+
+        <Modal
+          isOpen={showComparison && !!olderRecord && !!newerRecord}
+          onClose={() => setShowComparison(false)}
+          title="Compare Records"
+        >
+          {olderRecord && newerRecord && renderComparison(olderRecord, newerRecord)}
+        </Modal>
+      </div>
+    );
+  };
+
+  const renderComparison = (older: InvoiceRecord, newer: InvoiceRecord) => {
+    const diffs = compareRecords(older, newer);
+    const visible = comparisonChangesOnly ? diffs.filter(d => d.status !== 'same') : diffs;
+    const counts = { added: 0, removed: 0, changed: 0, same: 0 };
+    diffs.forEach(d => counts[d.status]++);
+
+    const cell = (diff: ItemDiff, field: CompareField) => {
+      const before = diff.before ? Number(diff.before[field]) : undefined;
+      const after = diff.after ? Number(diff.after[field]) : undefined;
+      const format = (value: number) => field === 'price' ? formatMoney(value) : String(value);
+      if (before === undefined || after === undefined) {
+        return <span className="text-gray-400">{format((before ?? after)!)}</span>;
+      }
+      if (before === after) return <span className="text-gray-500">{format(after)}</span>;
+      const delta = after - before;
+      return (
+        <span className="font-medium text-gray-800" title={`${format(before)} → ${format(after)}`}>
+          {format(before)}&rarr;{format(after)}
+          <span className={`block text-[10px] ${delta > 0 ? 'text-green-700' : 'text-red-700'}`}>
+            {delta > 0 ? '+' : ''}{field === 'price' ? formatMoney(delta) : delta}
+          </span>
+        </span>
+      );
+    };
+
+    return (
+      <div className="space-y-3">
+        <div className="text-xs text-gray-600">
+          <strong>{recordLabel(older)}</strong> ({new Date(older.date).toLocaleDateString()}) &rarr; <strong>{recordLabel(newer)}</strong> ({new Date(newer.date).toLocaleDateString()})
+        </div>
+        <div className="flex flex-wrap gap-1 items-center">
+          <Badge type="info">{counts.changed} changed</Badge>
+          <Badge type="success">{counts.added} new</Badge>
+          <Badge type="error">{counts.removed} gone</Badge>
+          <span className="text-xs text-gray-400">{counts.same} unchanged</span>
+          <button onClick={() => setComparisonChangesOnly(!comparisonChangesOnly)} className="ml-auto text-xs text-blue-600 hover:underline">
+            {comparisonChangesOnly ? 'Show all items' : 'Only changes'}
+          </button>
+        </div>
+        <div className="grid grid-cols-12 gap-1 text-[10px] font-bold text-gray-500 uppercase">
+          <div className="col-span-4">Item</div>
+          {COMPARE_FIELDS.map(field => (
+            <div key={field} className="col-span-2 text-center">{EXPORT_COLUMN_LABELS[field]}</div>
+          ))}
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto space-y-1">
+          {visible.map(diff => (
+            <div key={diff.key} className="grid grid-cols-12 gap-1 items-center text-xs border-t border-gray-100 pt-1">
+              <div className="col-span-4 min-w-0">
+                <div className="truncate text-gray-800">{diff.description}</div>
+                <div className="truncate text-[10px] text-gray-400">
+                  {diff.status === 'added' ? <span className="text-green-700">new</span> : diff.status === 'removed' ? <span className="text-red-700">not counted</span> : diff.vendor}
+                </div>
+              </div>
+              {COMPARE_FIELDS.map(field => (
+                <div key={field} className="col-span-2 text-center">{cell(diff, field)}</div>
+              ))}
+            </div>
+          ))}
+          {visible.length === 0 && <p className="text-sm text-gray-400 text-center py-4">Nothing changed between these records.</p>}
+        </div>
+      </div>
+    );
+  };
+
+  const renderScan = () => {
+    const activeCount = scanQueue.filter(job => job.status === 'queued' || job.status === 'analyzing').length;
+    const failedJobs = scanQueue.filter(job => job.status === 'failed');
+    const doneJobs = scanQueue.filter(job => job.status === 'done');
+    const scannedItems = doneJobs.reduce((sum, job) => sum + (job.itemCount || 0), 0);
+
+    const statusIcon = (job: ScanJob) => {
+      switch (job.status) {
+        case 'queued': return <Clock className="w-5 h-5 text-gray-400" />;
+        case 'analyzing': return <Loader2 className="w-5 h-5 text-green-600 animate-spin" />;
+        case 'done': return <CheckCircle2 className="w-5 h-5 text-green-600" />;
+        case 'failed': return <AlertCircle className="w-5 h-5 text-red-500" />;
+      }
+    };
+
+    return (
+      <div className="space-y-6 pb-20">
+        <div className="flex flex-col items-center justify-center text-center px-4 pt-6 space-y-4">
+          {activeCount > 0
+            ? <Loader2 className="w-16 h-16 text-green-600 animate-spin" />
+            : <AlertCircle className="w-16 h-16 text-red-500" />}
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">
+              {activeCount > 0
+                ? (scanMode === 'append' ? 'Processing Pages...' : 'Analyzing Invoice...')
+                : `${failedJobs.length} Page(s) Failed`}
+            </h2>
+            <p className={`text-gray-500 ${activeCount > 0 ? 'animate-pulse' : ''}`}>
+              {activeCount > 0
+                ? `Extracting vendors, items, and quantities... (${doneJobs.length} of ${scanQueue.length} pages done)`
+                : 'Retry the failed pages, or continue with the pages that succeeded.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {scanQueue.map(job => (
+            <Card key={job.id} className="p-3 flex items-center gap-3">
+              {statusIcon(job)}
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-sm text-gray-800 truncate">
+                  {job.fileName}{job.pageCount ? ` — Page ${job.pageNumber} of ${job.pageCount}` : ''}
+                </div>
+                <div className={`text-xs ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {job.status === 'queued' && 'Queued'}
+                  {job.status === 'analyzing' && 'Analyzing...'}
+                  {job.status === 'done' && `${job.itemCount} items`}
+                  {job.status === 'failed' && (job.error || 'Failed')}
+                </div>
+              </div>
+              {job.status === 'failed' && (
+                <Button variant="secondary" onClick={() => retryScanJob(job.id)} className="h-8 text-xs px-3">
+                  <RotateCw className="w-3 h-3" /> Retry
+                </Button>
+              )}
+            </Card>
+          ))}
+        </div>
+
+        {activeCount === 0 && failedJobs.length > 0 && (
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="secondary" onClick={() => failedJobs.forEach(job => retryScanJob(job.id))}>
+              <RotateCw className="w-4 h-4" /> Retry All
+            </Button>
+            <Button 
+              onClick={() => {
+                setScanQueue([]);
+                setView(doneJobs.length > 0 || items.length > 0 ? AppView.REVIEW : AppView.DASHBOARD);
+              }}
+            >
+              {scannedItems > 0 ? `Review ${scannedItems} Items` : 'Continue'}
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const exportBackup = async () => {
+    try {
+      const images = backupImages ? await listImages() : undefined;
+      const archive = createBackup({
+        records: history,
+        settings: { settings, vendorProfiles, catalog, parMemory, orderRules, vendorContacts, poCounter: lastPoNumber },
+        images,
+      });
+      downloadBlob(backupBlob(archive), backupFileName());
+      setToastMessage(`Backed up ${history.length} record(s)${images ? ` and ${Object.keys(images).length} image(s)` : ''}`);
+    } catch (e) {
+      console.error("Backup failed", e);
+      setToastMessage("Couldn't create the backup");
+    }
+  };
+
+  const handleRestoreFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      const plan = planRestore(parseBackup(await file.text()), history, catalog);
+      setRestoreChoices(Object.fromEntries(plan.conflicts.map(c => [c.id, 'local' as RestoreChoice])));
+      setRestoreMode('merge');
+      setRestorePlan(plan);
+    } catch (e) {
+      console.error("Backup rejected", e);
+      setToastMessage(e instanceof Error ? e.message : "Couldn't read the backup");
+    }
+  };
+
+  const applyRestorePlan = async () => {
+    if (!restorePlan) return;
+    if (restoreMode === 'replace' && !window.confirm(`Replace all ${history.length} record(s), settings and catalog on this device with the backup?`)) {
+      return;
+    }
+
+    const result = applyRestore(restorePlan, restoreMode, restoreChoices, {
+      records: history,
+      settings: { settings, vendorProfiles, catalog, parMemory, orderRules, vendorContacts, poCounter: lastPoNumber },
+    });
+    try {
+      await saveImages(result.images, result.keepImageIds);
+    } catch (e) {
+      console.error("Restoring images failed", e);
+      setToastMessage("Couldn't restore the images; nothing was changed");
+      return;
+    }
+
+    // The open review may be a record the backup just replaced, so it's closed
+    setCurrentRecordId(null);
+    setItems([]);
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setScanPages([]);
+    setIssuedPurchaseOrders([]);
+
+    setHistory(result.records);
+    setSettings(withDefaultSettings(result.settings.settings || {}));
+    setVendorProfiles(result.settings.vendorProfiles || []);
+    setCatalog(result.settings.catalog || []);
+    setParMemory(result.settings.parMemory || {});
+    setOrderRules(result.settings.orderRules || []);
+    setVendorContacts(result.settings.vendorContacts || []);
+    setLastPoNumber(result.settings.poCounter || 0);
+    setRestorePlan(null);
+    setToastMessage(restoreMode === 'replace'
+      ? `Restored ${result.records.length} record(s) from the backup`
+      : `Added ${restorePlan.newRecords} record(s) from the backup`);
+  };
+
+  const renderSettings = () => {
+    const isScriptUrlWarning = settings.scriptUrl && !settings.scriptUrl.endsWith('/exec');
+
+    return (
+      <div className="space-y-6 pb-20">
+         <div className="flex items-center gap-2 mb-6">
+            <Button variant="ghost" onClick={() => setView(AppView.DASHBOARD)} className="pl-0">
+              <ArrowLeft className="w-5 h-5" /> Back
+            </Button>
+            <h2 className="text-2xl font-bold">Automation Setup</h2>
+         </div>
+
+         <Card className="p-5 space-y-4 border-blue-100 bg-blue-50">
+            <div className="flex justify-between items-center border-b border-blue-200 pb-2">
+              <h3 className="font-bold text-lg text-blue-900">1. Link Google Sheet</h3>
+              <Badge type={settings.scriptUrl ? 'success' : 'warning'}>{settings.scriptUrl ? 'Connected' : 'Not Linked'}</Badge>
+            </div>
+            
+            <div className="space-y-4">
+               <div className="space-y-3 pb-4 border-b border-blue-200">
+                  <p className="text-sm text-gray-600">The script below is generated from these options. Redeploy it after changing them.</p>
+                  <Input 
+                    label="Target Google Sheet URL" 
+                    value={settings.googleSheetUrl}
+                    onChange={(e) => setSettings({...settings, googleSheetUrl: e.target.value})}
+                  />
+                  {settings.googleSheetUrl && !spreadsheetIdFromUrl(settings.googleSheetUrl) && (
+                    <p className="text-xs text-amber-600">Couldn't find a spreadsheet ID in this URL.</p>
+                  )}
+                  <Input 
+                    label="Tab (blank = first tab, created if missing)"
+                    value={settings.script.tab}
+                    onChange={(e) => setSettings({...settings, script: { ...settings.script, tab: e.target.value }})}
+                  />
+                  {renderSheetColumnPicker(settings.script.columns, columns => setSettings({...settings, script: { ...settings.script, columns }}))}
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="font-semibold text-gray-800 text-sm">Timestamp Column</span>
+                      <p className="text-xs text-gray-500">When the row was written</p>
+                    </div>
+                    <Switch 
+                      checked={settings.script.includeTimestamp} 
+                      onChange={(val) => setSettings({...settings, script: { ...settings.script, includeTimestamp: val }})} 
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="font-semibold text-gray-800 text-sm">Record ID Column</span>
+                      <p className="text-xs text-gray-500">Which scan the row came from</p>
+                    </div>
+                    <Switch 
+                      checked={settings.script.includeRecordId} 
+                      onChange={(val) => setSettings({...settings, script: { ...settings.script, includeRecordId: val }})} 
+                    />
+                  </div>
+                  <Select 
+                    label="Write Mode"
+                    value={settings.script.writeMode}
+                    onChange={(e) => setSettings({...settings, script: { ...settings.script, writeMode: e.target.value as ScriptWriteMode }})}
+                  >
+                    <option value="append">Append rows</option>
+                    <option value="replace">Replace tab contents</option>
+                    <option value="upsert">Update matching rows (upsert)</option>
+                  </Select>
+                  {settings.script.writeMode === 'replace' && (
+                    <p className="text-xs text-amber-600">Every upload clears the tab before writing, so it only ever holds the latest count.</p>
+                  )}
+                  {settings.script.writeMode === 'upsert' && (
+                    <p className="text-xs text-gray-500">
+                      One live row per item. Rows are matched by SKU, or by vendor + description, and get the new In Stock, PAR, Order and Price. Only new items are appended.
+                    </p>
+                  )}
+               </div>
+
+               <div className="text-sm text-gray-600 space-y-2">
+                  <p>Follow these steps to create a <strong>New Deployment</strong> (Fixes "No active deployment"):</p>
+                  <ol className="list-decimal pl-4 space-y-2 font-medium text-gray-800">
+                    <li>Go to <a href="https://script.google.com/home" target="_blank" className="text-blue-600 underline">script.google.com</a>.</li>
+                    <li>Create or Open your project.</li>
+                    <li className="relative group">
+                      <div className="bg-white border rounded-md p-2 text-xs font-mono text-gray-600 overflow-x-auto max-h-40">
+                        <pre>{scriptCode}</pre>
+                        <Button 
+                          variant="secondary" 
+                          className="absolute top-2 right-2 h-8 text-xs"
+                          onClick={() => {
+                            navigator.clipboard.writeText(scriptCode);
+                            setToastMessage("Code copied!");
+                          }}
+                        >
+                          <Copy className="w-3 h-3 mr-1" /> Copy Code
+                        </Button>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Paste this code into the editor (replace everything).</p>
+                    </li>
+                    <li>Click <strong>Deploy</strong> (Blue button, top right) &rarr; <strong>New Deployment</strong>.</li>
+                    <li>Click the Gear Icon ⚙️ (next to "Select type") &rarr; choose <strong>Web App</strong>.</li>
+                    <li className="text-red-600 font-bold bg-red-50 p-1 rounded">
+                      Who has access: Select "Anyone" (Required!)
+                    </li>
+                    <li>Click <strong>Deploy</strong> and copy the <strong>Web App URL</strong>.</li>
+                  </ol>
+               </div>
+
+               <Input 
+                  label="Paste Web App URL Here (/exec)" 
+                  placeholder="https://script.google.com/macros/s/.../exec"
+                  value={settings.scriptUrl}
+                  onChange={(e) => setSettings({...settings, scriptUrl: e.target.value})}
+                />
+                
+                {scriptOutdated && renderScriptOutdatedNotice()}
+
+                {isScriptUrlWarning && (
+                  <div className="flex items-center gap-2 text-amber-600 text-xs font-bold bg-amber-50 p-2 rounded">
+                    <AlertTriangle className="w-4 h-4" />
+                    Warning: URL should end in '/exec'. Do not use '/edit' or '/dev'.
+                  </div>
+                )}
+                
+                <div className="flex gap-2">
+                  <Button 
+                    onClick={async () => {
+                      if (!settings.scriptUrl) {
+                        setToastMessage("Paste a URL first!");
+                        return;
+                      }
+                      setToastMessage("Testing connection...");
+                      // Sent directly: a failed test shouldn't be queued in the outbox
+                      const result = await postRows({ scriptUrl: settings.scriptUrl }, toUploadRows([{
+                        id: 'test', description: 'Connection Test', vendor: 'Test', inStock: 1, par: 1, order: 0, price: 0
+                      }]), `test-${Date.now()}`);
+                      if (result.ok) {
+                        setToastMessage("Connection Successful! ✅");
+                        fetchDeployedScriptInfo(settings.scriptUrl).then(setDeployedScript).catch(() => {});
+                      } else {
+                        setToastMessage(`Connection Failed (${result.error}). Check 'Who has access' is set to 'Anyone'`);
+                      }
+                    }}
+                    className="w-full"
+                    variant="secondary"
+                  >
+                    Test Connection
+                  </Button>
+                </div>
+
+               <div className="flex items-center justify-between pt-4 border-t border-blue-200">
+                  <div>
+                     <span className="font-semibold text-gray-800 flex items-center gap-2">
+                       <Zap className="w-4 h-4 text-orange-500" fill="currentColor" /> Auto-Export
+                     </span>
+                     <p className="text-xs text-gray-500">Upload immediately after scan</p>
+                  </div>
+                  <Switch 
+                    checked={settings.autoExport} 
+                    onChange={(val) => setSettings({...settings, autoExport: val})} 
+                  />
+               </div>
+            </div>
+         </Card>
+
+         <Card className="p-5 space-y-3">
+            <h3 className="font-bold text-lg border-b pb-2 flex items-center gap-2">
+              <Sheet className="w-5 h-5 text-gray-500" /> Destinations
+            </h3>
+            <p className="text-xs text-gray-500">
+              Send some vendors to other tabs or workbooks, each with its own column layout, or to a webhook.
+            </p>
+            <Button variant="secondary" onClick={() => setView(AppView.DESTINATIONS)} className="w-full justify-between">
+              <span>Manage Destinations ({settings.destinations.length}) & Routing ({settings.routingRules.length})</span>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+         </Card>
+
+         <Card className="p-5 space-y-4">
+            <h3 className="font-bold text-lg border-b pb-2 flex items-center gap-2">
+              <Cpu className="w-5 h-5 text-gray-500" /> Extraction Engine
+            </h3>
+            <Select 
+              label="Provider"
+              value={settings.extractionProvider}
+              onChange={(e) => setSettings({...settings, extractionProvider: e.target.value as AppSettings['extractionProvider']})}
+            >
+              {EXTRACTION_PROVIDERS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </Select>
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="font-semibold text-gray-800 text-sm">Record Responses</span>
+                <p className="text-xs text-gray-500">Save raw results so the same image can be replayed offline ({countReplays()} saved)</p>
+              </div>
+              <Switch 
+                checked={settings.recordResponses} 
+                onChange={(val) => setSettings({...settings, recordResponses: val})} 
+              />
+            </div>
+            {countReplays() > 0 && (
+              <button 
+                onClick={() => {
+                  clearReplays();
+                  setToastMessage("Recorded responses cleared");
+                }} 
+                className="text-xs text-red-600 hover:underline"
+              >
+                Clear recorded responses
+              </button>
+            )}
+         </Card>
+
+         <Card className="p-5 space-y-3">
+            <h3 className="font-bold text-lg border-b pb-2 flex items-center gap-2">
+              <LayoutList className="w-5 h-5 text-gray-500" /> Vendor Layouts
+            </h3>
+            <p className="text-xs text-gray-500">
+              Describe sheets whose columns differ from the standard layout (In Stock, PAR, Order, Description, Price).
+            </p>
+            <Button variant="secondary" onClick={() => setView(AppView.VENDOR_PROFILES)} className="w-full justify-between">
+              <span>Manage Layouts ({vendorProfiles.length})</span>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+         </Card>
+
+         <Card className="p-5 space-y-3">
+            <h3 className="font-bold text-lg border-b pb-2 flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-gray-500" /> Item Catalog
+            </h3>
+            <p className="text-xs text-gray-500">
+              Canonical items with stable SKUs. Scanned descriptions are matched against names and aliases.
+            </p>
+            <Button variant="secondary" onClick={() => setView(AppView.CATALOG)} className="w-full justify-between">
+              <span>Manage Catalog ({catalog.length})</span>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Button variant="secondary" onClick={syncFromSheet} disabled={isSyncing} className="w-full">
+              {isSyncing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCw className="w-4 h-4 mr-2" />}
+              Sync from Sheet
+            </Button>
+            <div className="flex items-center justify-between text-xs text-gray-500 pt-2 border-t">
+              <span>{Object.keys(parMemory).length} remembered PAR level(s)</span>
+              {Object.keys(parMemory).length > 0 && (
+                <button 
+                  onClick={() => {
+                    if (window.confirm("Forget all remembered PAR levels?")) setParMemory({});
+                  }} 
+                  className="text-red-600 hover:underline"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+         </Card>
+
+         <Card className="p-5 space-y-3">
+            <h3 className="font-bold text-lg border-b pb-2 flex items-center gap-2">
+              <PackageCheck className="w-5 h-5 text-gray-500" /> Order Rules
+            </h3>
+            <p className="text-xs text-gray-500">
+              Case packs, minimums, caps and "never order" flags, per vendor or per item.
+            </p>
+            <Button variant="secondary" onClick={() => setView(AppView.ORDER_RULES)} className="w-full justify-between">
+              <span>Manage Rules ({orderRules.length})</span>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Input 
+              label="Suggested PAR: Days of Cover"
+              type="number"
+              min={1}
+              value={settings.daysOfCover}
+              onChange={(e) => setSettings({...settings, daysOfCover: Number(e.target.value)})}
+            />
+         </Card>
+
+         <Card className="p-5 space-y-3">
+            <h3 className="font-bold text-lg border-b pb-2 flex items-center gap-2">
+              <Contact className="w-5 h-5 text-gray-500" /> Vendor Contacts
+            </h3>
+            <p className="text-xs text-gray-500">
+              Who receives each vendor's purchase orders. Used for the PO documents and email drafts.
+            </p>
+            <Button variant="secondary" onClick={() => setView(AppView.VENDOR_CONTACTS)} className="w-full justify-between">
+              <span>Manage Contacts ({vendorContacts.length})</span>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+         </Card>
+
+         <Card className="p-5 space-y-3">
+            <h3 className="font-bold text-lg border-b pb-2 flex items-center gap-2">
+              <Archive className="w-5 h-5 text-gray-500" /> Backup & Restore
+            </h3>
+            <p className="text-xs text-gray-500">
+              Everything is stored in this browser only. Save a backup file to move to another device or to recover after clearing site data. Queued uploads aren't included.
+            </p>
+            <div className="flex items-center justify-between">
+              <span className="font-semibold text-gray-800 text-sm">Include page images</span>
+              <Switch checked={backupImages} onChange={setBackupImages} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="secondary" onClick={exportBackup}>
+                <Download className="w-4 h-4" /> Export Backup
+              </Button>
+              <Button variant="secondary" onClick={() => restoreInputRef.current?.click()}>
+                <Upload className="w-4 h-4" /> Restore
+              </Button>
+            </div>
+         </Card>
+
+         {/* Restore Backup Modal */}
+         <Modal 
+           isOpen={restorePlan !== null} 
+           onClose={() => setRestorePlan(null)}
+           title="Restore Backup"
+         >
+           {restorePlan && (
+             <div className="space-y-4">
+               <ul className="text-sm text-gray-600 space-y-1">
+                 {restorePlan.backup.createdAt && <li>Made {new Date(restorePlan.backup.createdAt).toLocaleString()}</li>}
+                 <li><strong>{restorePlan.backup.records.length}</strong> record(s): {restorePlan.newRecords} new, {restorePlan.identicalRecords} already here</li>
+                 <li><strong>{restorePlan.conflicts.length}</strong> record(s) that differ from this device's copy</li>
+                 <li><strong>{(restorePlan.backup.settings.catalog || []).length}</strong> catalog item(s), <strong>{Object.keys(restorePlan.backup.settings.parMemory || {}).length}</strong> remembered PAR level(s)</li>
+                 <li><strong>{restorePlan.images}</strong> page image(s)</li>
+               </ul>
+
+               <div className="flex gap-1">
+                 {(['merge', 'replace'] as RestoreMode[]).map(mode => (
+                   <button
+                     key={mode}
+                     onClick={() => setRestoreMode(mode)}
+                     className={`flex-1 text-xs py-2 rounded border ${restoreMode === mode ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                   >
+                     {mode === 'merge' ? 'Merge with this device' : 'Replace everything'}
+                   </button>
+                 ))}
+               </div>
+               <p className="text-xs text-gray-500">
+                 {restoreMode === 'merge'
+                   ? "Adds what's missing here. Lists are combined, keeping this device's entry where both have one; for PAR levels the latest confirmation wins. This device's app settings stay."
+                   : `Deletes this device's history, settings, catalog and PAR levels and uses the backup's instead.${restorePlan.backup.images ? '' : " The backup has no page images, so images on this device that the restored records use are kept."}`}
+               </p>
+
+               {restoreMode === 'merge' && restorePlan.catalogConflicts.length > 0 && (
+                 <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                   {restorePlan.catalogConflicts.length} SKU(s) differ between the two catalogs ({restorePlan.catalogConflicts.slice(0, 5).join(', ')}{restorePlan.catalogConflicts.length > 5 ? '...' : ''}); this device's entries are kept.
+                 </p>
+               )}
+
+               {restoreMode === 'merge' && restorePlan.conflicts.length > 0 && (
+                 <div className="max-h-64 overflow-y-auto space-y-2">
+                   {restorePlan.conflicts.map(conflict => {
+                     const choice = restoreChoices[conflict.id] || 'local';
+                     const describe = (record: InvoiceRecord) =>
+                       `${RECORD_STATUS_BADGES[record.status].label}, ${record.totalItems} items, ${new Date(record.updatedAt || record.date).toLocaleDateString()}`;
+                     return (
+                       <div key={conflict.id} className="border rounded-lg p-3 space-y-2">
+                         <div className="text-sm font-medium text-gray-800">{conflict.label}</div>
+                         <div className="flex gap-1">
+                           {(['local', 'backup'] as RestoreChoice[]).map(side => (
+                             <button
+                               key={side}
+                               onClick={() => setRestoreChoices(prev => ({ ...prev, [conflict.id]: side }))}
+                               className={`flex-1 text-xs py-1.5 px-1 rounded border ${choice === side ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                             >
+                               {side === 'local' ? 'Keep mine' : 'Use backup'}: {describe(side === 'local' ? conflict.local : conflict.backup)}
+                             </button>
+                           ))}
+                         </div>
+                       </div>
+                     );
+                   })}
                  </div>
-                 <Badge type="success">Saved</Badge>
+               )}
+
+               <Button onClick={applyRestorePlan} variant={restoreMode === 'replace' ? 'danger' : 'primary'} className="w-full">
+                 {restoreMode === 'replace' ? 'Replace With Backup' : 'Merge Backup'}
+               </Button>
+             </div>
+           )}
+         </Modal>
+
+         {/* Sheet Sync Modal */}
+         <Modal 
+           isOpen={syncPlan !== null} 
+           onClose={() => setSyncPlan(null)}
+           title="Sync from Sheet"
+         >
+           {syncPlan && (
+             <div className="space-y-4">
+               <ul className="text-sm text-gray-600 space-y-1">
+                 <li><strong>{syncPlan.parUpdates.length}</strong> PAR level(s) to add</li>
+                 <li><strong>{syncPlan.newCatalogItems.length}</strong> new catalog item(s)</li>
+                 <li><strong>{syncPlan.conflicts.length}</strong> conflict(s) with PARs confirmed in the app</li>
+               </ul>
+
+               {syncPlan.conflicts.length > 0 && (
+                 <div className="max-h-64 overflow-y-auto space-y-2">
+                   {syncPlan.conflicts.map(conflict => {
+                     const choice = syncChoices[conflict.key] || 'sheet';
+                     return (
+                       <div key={conflict.key} className="border rounded-lg p-3 space-y-2">
+                         <div>
+                           <div className="text-sm font-medium text-gray-800">{conflict.sheet.description}</div>
+                           <div className="text-xs text-gray-500">{conflict.sheet.vendor || 'No vendor'}</div>
+                         </div>
+                         <div className="flex gap-1">
+                           <button
+                             onClick={() => setSyncChoices(prev => ({ ...prev, [conflict.key]: 'sheet' }))}
+                             className={`flex-1 text-xs py-1.5 rounded border ${choice === 'sheet' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                           >
+                             Sheet: PAR {conflict.sheet.par}
+                           </button>
+                           <button
+                             onClick={() => setSyncChoices(prev => ({ ...prev, [conflict.key]: 'local' }))}
+                             className={`flex-1 text-xs py-1.5 rounded border ${choice === 'local' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                             title={`Confirmed ${new Date(conflict.localUpdatedAt).toLocaleString()}`}
+                           >
+                             App: PAR {conflict.localPar}
+                           </button>
+                         </div>
+                       </div>
+                     );
+                   })}
+                 </div>
+               )}
+
+               <Button onClick={applySync} className="w-full">Apply Changes</Button>
+             </div>
+           )}
+         </Modal>
+      </div>
+    );
+  }
+
+  const linkItemToCatalog = (itemId: string, catalogItem: CatalogItem) => {
+    const item = items.find(i => i.id === itemId);
+    if (!item) return;
+
+    setCatalog(prev => prev.map(c => c.id === catalogItem.id ? addCatalogAlias(c, item.description) : c));
+    setItems(prev => prev.map(i => i.id === itemId ? withCatalogUnits({ ...i, catalogId: catalogItem.id, description: catalogItem.name }, catalogItem) : i));
+    setLinkingItemId(null);
+    setToastMessage(`Linked to ${catalogItem.name}`);
+  };
+
+  const createCatalogEntry = (itemId: string) => {
+    const item = items.find(i => i.id === itemId);
+    if (!item || !item.description.trim()) {
+      setToastMessage("Enter a description first");
+      return;
+    }
+
+    const catalogItem = createCatalogItem(item, catalog);
+    setCatalog(prev => [...prev, catalogItem]);
+    setItems(prev => prev.map(i => i.id === itemId ? { ...i, catalogId: catalogItem.id } : i));
+    setToastMessage(`Added ${catalogItem.id} to catalog`);
+  };
+
+  const updateCatalogItem = (id: string, changes: Partial<CatalogItem>) => {
+    setCatalog(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const updateConversion = (catalogItem: CatalogItem, index: number, changes: Partial<UnitConversion>) => {
+    updateCatalogItem(catalogItem.id, {
+      conversions: (catalogItem.conversions || []).map((c, i) => i === index ? { ...c, ...changes } : c),
+    });
+  };
+
+  const deleteCatalogItem = (id: string) => {
+    setCatalog(prev => prev.filter(c => c.id !== id));
+    setItems(prev => prev.map(i => i.catalogId === id ? { ...i, catalogId: undefined } : i));
+  };
+
+  const renderCatalog = () => {
+    const query = catalogSearch.toLowerCase();
+    const visible = catalog.filter(c =>
+      !query || [c.id, c.name, c.vendor, ...c.aliases].some(text => text.toLowerCase().includes(query))
+    );
+
+    return (
+      <div className="space-y-6 pb-20">
+        <div className="flex items-center gap-2 mb-6">
+          <Button variant="ghost" onClick={() => setView(AppView.SETTINGS)} className="pl-0">
+            <ArrowLeft className="w-5 h-5" /> Back
+          </Button>
+          <h2 className="text-2xl font-bold">Item Catalog</h2>
+        </div>
+
+        <Input 
+          placeholder="Search by name, SKU, vendor or alias"
+          value={catalogSearch}
+          onChange={(e) => setCatalogSearch(e.target.value)}
+        />
+
+        {catalog.length === 0 && (
+          <div className="text-center py-10 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+            <BookOpen className="w-12 h-12 mx-auto mb-2 opacity-20" />
+            <p>No catalog items yet. Use "New" on unmatched rows in Review.</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {visible.map(c => (
+            <Card key={c.id} className="p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono text-gray-400">{c.id}</span>
+                <input 
+                  className="flex-1 font-medium text-gray-800 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none text-sm"
+                  value={c.name}
+                  onChange={(e) => updateCatalogItem(c.id, { name: e.target.value })}
+                />
+                <button onClick={() => deleteCatalogItem(c.id)} className="text-gray-300 hover:text-red-500 p-1">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Input 
+                  label="Vendor"
+                  value={c.vendor}
+                  onChange={(e) => updateCatalogItem(c.id, { vendor: e.target.value })}
+                />
+                <Input 
+                  label="Unit"
+                  placeholder="cs, lb, ea"
+                  value={c.unit}
+                  onChange={(e) => updateCatalogItem(c.id, { unit: e.target.value })}
+                />
+                <Input 
+                  label="Default PAR"
+                  type="number"
+                  value={c.defaultPar}
+                  onChange={(e) => updateCatalogItem(c.id, { defaultPar: Number(e.target.value) })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Select 
+                  label="Priced"
+                  value={c.priceBasis || 'unit'}
+                  onChange={(e) => updateCatalogItem(c.id, { priceBasis: e.target.value as PriceBasis })}
+                >
+                  <option value="unit">Per unit</option>
+                  <option value="weight">By weight</option>
+                </Select>
+                <Input 
+                  label="Price Per"
+                  placeholder={c.priceBasis === 'weight' ? DEFAULT_WEIGHT_UNIT : c.unit || 'unit'}
+                  value={c.priceUnit || ''}
+                  onChange={(e) => updateCatalogItem(c.id, { priceUnit: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs font-medium text-gray-500">Conversions</div>
+                {(c.conversions || []).map((conversion, index) => (
+                  <div key={index} className="flex items-center gap-1 text-sm">
+                    <span className="text-gray-400">1</span>
+                    <input
+                      className="w-16 bg-gray-50 rounded px-1 py-0.5 border border-gray-200 focus:border-blue-500 focus:outline-none"
+                      value={conversion.from}
+                      onChange={(e) => updateConversion(c, index, { from: e.target.value })}
+                      placeholder="case"
+                    />
+                    <span className="text-gray-400">=</span>
+                    <input
+                      type="number"
+                      className="w-16 bg-gray-50 rounded px-1 py-0.5 border border-gray-200 focus:border-blue-500 focus:outline-none"
+                      value={conversion.factor || ''}
+                      onChange={(e) => updateConversion(c, index, { factor: Number(e.target.value) })}
+                      placeholder="24"
+                    />
+                    <input
+                      className="w-16 bg-gray-50 rounded px-1 py-0.5 border border-gray-200 focus:border-blue-500 focus:outline-none"
+                      value={conversion.to}
+                      onChange={(e) => updateConversion(c, index, { to: e.target.value })}
+                      placeholder="each"
+                    />
+                    <button
+                      onClick={() => updateCatalogItem(c.id, { conversions: c.conversions!.filter((_, i) => i !== index) })}
+                      className="text-gray-300 hover:text-red-500 p-1"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateCatalogItem(c.id, { conversions: [...(c.conversions || []), { from: c.unit || '', to: '', factor: 0 }] })}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  + Add conversion (e.g. 1 case = 24 each)
+                </button>
+              </div>
+              <Input 
+                key={`${c.id}-aliases-${c.aliases.length}`}
+                label="Aliases (comma separated)"
+                defaultValue={c.aliases.join(', ')}
+                onBlur={(e) => updateCatalogItem(c.id, { aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })}
+              />
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const updateOrderRule = (id: string, changes: Partial<OrderRule>) => {
+    setOrderRules(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  const syncFromSheet = async () => {
+    const [main] = getDestinations(settings);
+    const target = toUploadTarget(main, settings);
+    if (!target.scriptUrl) {
+      setToastMessage("Link the Google Sheet script first");
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const plan = planSheetSync(await fetchSheetItems(target), parMemory, catalog);
+      if (plan.parUpdates.length + plan.conflicts.length + plan.newCatalogItems.length === 0) {
+        setToastMessage(`Already in sync (${plan.unchanged} item(s) checked)`);
+        return;
+      }
+      setSyncChoices(Object.fromEntries(plan.conflicts.map(c => [c.key, 'sheet' as SyncChoice])));
+      setSyncPlan(plan);
+    } catch (e) {
+      console.error("Sheet sync failed", e);
+      setToastMessage(e instanceof Error ? e.message : "Could not read the sheet.");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const applySync = () => {
+    if (!syncPlan) return;
+    const result = applySheetSync(syncPlan, syncChoices, parMemory, catalog);
+    setParMemory(result.parMemory);
+    setCatalog(result.catalog);
+
+    // Rows in the open review pick up the new PARs, except PARs handwritten on the scanned sheet
+    // and rows whose order was typed in by hand
+    setItems(prev => prev.map(item => {
+      const par = lookupPar(result.parMemory, item);
+      if (item.parSource === 'sheet' || item.rawNeed === undefined || par === undefined || par === Number(item.par)) return item;
+      const rawNeed = Math.max(0, par - Number(item.inStock));
+      return { ...item, par, parSource: 'memory', rawNeed, order: resolveOrder(item, rawNeed, orderRules) };
+    }));
+
+    setToastMessage(`Synced ${result.applied} PAR level(s) and ${syncPlan.newCatalogItems.length} new catalog item(s) from the sheet`);
+    setSyncPlan(null);
+  };
+
+  // Re-applies rules to the open review so changes show up immediately.
+  // Rows with a typed order (no raw need) are left alone.
+  const reapplyOrderRules = () => {
+    setItems(prev => prev.map(item =>
+      item.rawNeed === undefined ? item : { ...item, order: resolveOrder(item, item.rawNeed, orderRules) }
+    ));
+    setToastMessage("Rules applied to current review");
+  };
+
+  const renderOrderRules = () => (
+    <div className="space-y-6 pb-20">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" onClick={() => setView(AppView.SETTINGS)} className="pl-0">
+            <ArrowLeft className="w-5 h-5" /> Back
+          </Button>
+          <h2 className="text-2xl font-bold">Order Rules</h2>
+        </div>
+        <Button variant="secondary" onClick={() => setOrderRules(prev => [...prev, createOrderRule()])} className="px-3">
+          <Plus className="w-4 h-4" /> Add
+        </Button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        The raw need (PAR − In Stock, or the handwritten order) is rounded to packs, raised to the minimum, then capped.
+        Item rules take priority over vendor rules.
+      </p>
+
+      {orderRules.length === 0 && (
+        <div className="text-center py-10 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+          <PackageCheck className="w-12 h-12 mx-auto mb-2 opacity-20" />
+          <p>No order rules yet.</p>
+        </div>
+      )}
+
+      <datalist id="rule-item-options">
+        {catalog.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+      </datalist>
+
+      <div className="space-y-3">
+        {orderRules.map(rule => (
+          <Card key={rule.id} className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold text-gray-700">{describeOrderRule(rule)}</span>
+              <button onClick={() => setOrderRules(prev => prev.filter(r => r.id !== rule.id))} className="text-gray-300 hover:text-red-500 p-1">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select 
+                label="Applies To"
+                value={rule.scope}
+                onChange={(e) => updateOrderRule(rule.id, { scope: e.target.value as OrderRule['scope'] })}
+              >
+                <option value="vendor">Whole vendor</option>
+                <option value="item">One item</option>
+              </Select>
+              <Input 
+                label="Vendor"
+                placeholder="Any vendor"
+                value={rule.vendor}
+                onChange={(e) => updateOrderRule(rule.id, { vendor: e.target.value })}
+              />
+            </div>
+            {rule.scope === 'item' && (
+              <Input 
+                label="Item (SKU or Description)"
+                list="rule-item-options"
+                value={rule.item}
+                onChange={(e) => updateOrderRule(rule.id, { item: e.target.value })}
+              />
+            )}
+            <Switch 
+              label="Never order"
+              checked={rule.neverOrder}
+              onChange={(val) => updateOrderRule(rule.id, { neverOrder: val })}
+            />
+            {!rule.neverOrder && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input 
+                  label="Pack Size"
+                  type="number"
+                  min={1}
+                  value={rule.packSize}
+                  onChange={(e) => updateOrderRule(rule.id, { packSize: Number(e.target.value) })}
+                />
+                <Select 
+                  label="Rounding"
+                  value={rule.rounding}
+                  onChange={(e) => updateOrderRule(rule.id, { rounding: e.target.value as OrderRule['rounding'] })}
+                >
+                  <option value="up">Round up</option>
+                  <option value="down">Round down</option>
+                  <option value="nearest">Nearest</option>
+                </Select>
+                <Input 
+                  label="Minimum"
+                  type="number"
+                  min={0}
+                  value={rule.minOrder}
+                  onChange={(e) => updateOrderRule(rule.id, { minOrder: Number(e.target.value) })}
+                />
+                <Input 
+                  label="Maximum (0 = none)"
+                  type="number"
+                  min={0}
+                  value={rule.maxOrder}
+                  onChange={(e) => updateOrderRule(rule.id, { maxOrder: Number(e.target.value) })}
+                />
+              </div>
+            )}
+          </Card>
+        ))}
+      </div>
+
+      {orderRules.length > 0 && items.length > 0 && (
+        <Button variant="secondary" onClick={reapplyOrderRules} className="w-full">
+          Apply Rules to Current Review
+        </Button>
+      )}
+    </div>
+  );
+
+  const updateDestination = (id: string, changes: Partial<ExportDestination>) => {
+    setSettings(prev => ({ ...prev, destinations: prev.destinations.map(d => d.id === id ? { ...d, ...changes } : d) }));
+  };
+
+  const addDestination = (kind: DestinationKind) => {
+    const destination = createDestination(kind);
+    setSettings(prev => ({ ...prev, destinations: [...prev.destinations, destination] }));
+    setEditingDestinationId(destination.id);
+  };
+
+  const updateWebhook = (destination: ExportDestination, changes: Partial<WebhookConfig>) => {
+    updateDestination(destination.id, { webhook: { ...destination.webhook, ...changes } });
+  };
+
+  // Dry run: renders and signs the request exactly as an export would, from the review's rows for this
+  // destination (or sample rows), without sending it
+  const previewWebhook = async (destination: ExportDestination) => {
+    const routed = routeItems(items, settings).find(group => group.destination.id === destination.id)?.items;
+    const previewItems = routed || (items.length > 0 ? items : PREVIEW_ITEMS);
+    const baseKey = Date.now().toString();
+    const request = await buildWebhookRequest(
+      destination.webhook,
+      buildWebhookContext(previewItems, baseKey, `Invoice #${baseKey.slice(-6)}`, catalog),
+      destinationKey(baseKey, destination.id)
+    );
+    setWebhookPreview(formatWebhookRequest(request));
+  };
+
+  // Rules that sent vendors to a deleted destination go with it, so those vendors fall back to the main sheet
+  const deleteDestination = (id: string) => {
+    setSettings(prev => ({
+      ...prev,
+      destinations: prev.destinations.filter(d => d.id !== id),
+      routingRules: prev.routingRules.filter(r => r.destinationId !== id),
+    }));
+  };
+
+  // Ordered sheet columns with checkboxes; shared by the main script options and each destination
+  const renderSheetColumnPicker = (columns: ExportColumn[], onChange: (columns: ExportColumn[]) => void) => {
+    const unused = ALL_EXPORT_COLUMNS.filter(c => !columns.includes(c));
+    const move = (index: number, direction: -1 | 1) => {
+      const next = [...columns];
+      const target = index + direction;
+      if (target < 0 || target >= next.length) return;
+      [next[index], next[target]] = [next[target], next[index]];
+      onChange(next);
+    };
+
+    return (
+      <div className="space-y-1">
+        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Columns (Left to Right)</label>
+        {columns.map((column, index) => (
+          <div key={column} className="flex items-center gap-2">
+            <input 
+              type="checkbox" 
+              checked 
+              onChange={() => onChange(columns.filter(c => c !== column))}
+            />
+            <span className="flex-1 text-sm">{index + 1}. {EXPORT_COLUMN_LABELS[column]}</span>
+            <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button onClick={() => move(index, 1)} disabled={index === columns.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+              <ChevronDown className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {unused.map(column => (
+          <label key={column} className="flex items-center gap-2 text-sm text-gray-400">
+            <input 
+              type="checkbox" 
+              checked={false}
+              onChange={() => onChange([...columns, column])}
+            />
+            {EXPORT_COLUMN_LABELS[column]}
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  const updateRoutingRule = (id: string, changes: Partial<RoutingRule>) => {
+    setSettings(prev => ({ ...prev, routingRules: prev.routingRules.map(r => r.id === id ? { ...r, ...changes } : r) }));
+  };
+
+  const renderWebhookFields = (destination: ExportDestination, webhook: WebhookConfig) => (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="w-28">
+          <Select 
+            label="Method"
+            value={webhook.method}
+            onChange={(e) => updateWebhook(destination, { method: e.target.value as WebhookMethod })}
+          >
+            {WEBHOOK_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+          </Select>
+        </div>
+        <Input 
+          label="URL"
+          placeholder="https://example.com/hooks/orders"
+          value={webhook.url}
+          onChange={(e) => updateWebhook(destination, { url: e.target.value })}
+        />
+      </div>
+      <Input 
+        label="Content Type"
+        list="webhook-content-types"
+        value={webhook.contentType}
+        onChange={(e) => updateWebhook(destination, { contentType: e.target.value })}
+      />
+      <datalist id="webhook-content-types">
+        <option value="application/json" />
+        <option value="text/plain" />
+        <option value="application/x-www-form-urlencoded" />
+      </datalist>
+
+      <div className="space-y-1">
+        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Headers</label>
+        {webhook.headers.map((header, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input 
+              placeholder="Name"
+              value={header.name}
+              onChange={(e) => updateWebhook(destination, { headers: webhook.headers.map((h, i) => i === index ? { ...h, name: e.target.value } : h) })}
+            />
+            <Input 
+              placeholder="Value"
+              value={header.value}
+              onChange={(e) => updateWebhook(destination, { headers: webhook.headers.map((h, i) => i === index ? { ...h, value: e.target.value } : h) })}
+            />
+            <button onClick={() => updateWebhook(destination, { headers: webhook.headers.filter((_, i) => i !== index) })} className="p-1 text-gray-400 hover:text-red-500">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button onClick={() => updateWebhook(destination, { headers: [...webhook.headers, { name: '', value: '' }] })} className="text-xs text-blue-600 hover:underline">
+          + Add header
+        </button>
+      </div>
+
+      <TextArea 
+        label="Body Template"
+        rows={8}
+        className="font-mono text-xs"
+        value={webhook.bodyTemplate}
+        onChange={(e) => updateWebhook(destination, { bodyTemplate: e.target.value })}
+      />
+      <p className="text-xs text-gray-500">
+        {'{{record.id}}'}, {'{{record.label}}'}, {'{{record.date}}'} and item fields insert values; {'{{json items}}'} inserts JSON;
+        {' {{#orders}}…{{/orders}}'} repeats for each item with an order.
+      </p>
+
+      <div className="flex gap-2">
+        <Input 
+          label="Signing Secret (blank = unsigned)"
+          type="password"
+          value={webhook.secret}
+          onChange={(e) => updateWebhook(destination, { secret: e.target.value })}
+        />
+        <Input 
+          label="Signature Header"
+          value={webhook.signatureHeader}
+          onChange={(e) => updateWebhook(destination, { signatureHeader: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2 pt-2 border-t">
+        <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Success When</label>
+        <Input 
+          label="Status Codes"
+          placeholder="2xx"
+          value={webhook.validation.statuses}
+          onChange={(e) => updateWebhook(destination, { validation: { ...webhook.validation, statuses: e.target.value } })}
+        />
+        <Input 
+          label="Body Contains (optional)"
+          value={webhook.validation.bodyContains}
+          onChange={(e) => updateWebhook(destination, { validation: { ...webhook.validation, bodyContains: e.target.value } })}
+        />
+        <div className="flex gap-2">
+          <Input 
+            label="JSON Field (optional)"
+            placeholder="e.g. result.ok"
+            value={webhook.validation.jsonField}
+            onChange={(e) => updateWebhook(destination, { validation: { ...webhook.validation, jsonField: e.target.value } })}
+          />
+          <Input 
+            label="Equals"
+            placeholder="blank = any truthy value"
+            value={webhook.validation.jsonValue}
+            onChange={(e) => updateWebhook(destination, { validation: { ...webhook.validation, jsonValue: e.target.value } })}
+          />
+        </div>
+      </div>
+
+      <Button variant="secondary" onClick={() => previewWebhook(destination)} className="w-full">
+        <Eye className="w-4 h-4 mr-2" /> Preview Request
+      </Button>
+    </div>
+  );
+
+  const renderDestinations = () => {
+    const destinations = getDestinations(settings);
+
+    return (
+      <div className="space-y-6 pb-20">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => setView(AppView.SETTINGS)} className="pl-0">
+              <ArrowLeft className="w-5 h-5" /> Back
+            </Button>
+            <h2 className="text-2xl font-bold">Destinations</h2>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => addDestination('sheet')} className="px-3">
+              <Plus className="w-4 h-4" /> Sheet
+            </Button>
+            <Button variant="secondary" onClick={() => addDestination('webhook')} className="px-3">
+              <Plus className="w-4 h-4" /> Webhook
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          Uploads are split by vendor using the routing rules below. Vendors without a rule go to the Main Sheet
+          (the script URL under “1. Link Google Sheet”). Webhooks send the rows to any HTTP endpoint instead of a sheet.
+        </p>
+
+        <div className="space-y-3">
+          {settings.destinations.map(destination => {
+            const isEditing = editingDestinationId === destination.id;
+            const sheetId = spreadsheetIdFromUrl(destination.sheetUrl);
+            const webhook = isWebhookDestination(destination) ? destination.webhook : undefined;
+
+            return (
+              <Card key={destination.id} className="p-4 space-y-3">
+                <div className="flex justify-between items-center cursor-pointer" onClick={() => setEditingDestinationId(isEditing ? null : destination.id)}>
+                  <div className="min-w-0">
+                    <div className="font-semibold text-gray-800 flex items-center gap-1.5">
+                      {webhook && <Webhook className="w-4 h-4 text-gray-400" />}
+                      {destination.name || 'Unnamed destination'}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {webhook
+                        ? `${webhook.method} ${webhook.url || '(no URL)'} • ${webhook.secret ? 'Signed' : 'Unsigned'}`
+                        : `${destination.tab ? `Tab "${destination.tab}"` : 'First tab'} • ${sheetId ? 'Own spreadsheet' : 'Main spreadsheet'} • ${destination.columns.length} column(s)`}
+                    </div>
+                  </div>
+                  {isEditing ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+                </div>
+
+                {isEditing && (
+                  <div className="space-y-3 pt-3 border-t">
+                    <Input 
+                      label="Name"
+                      placeholder="e.g. Kitchen 2 – Produce"
+                      value={destination.name}
+                      onChange={(e) => updateDestination(destination.id, { name: e.target.value })}
+                    />
+                    {webhook ? renderWebhookFields(destination, webhook) : (
+                      <>
+                        <Input 
+                          label="Sheet URL (blank = main spreadsheet)"
+                          placeholder="https://docs.google.com/spreadsheets/d/..."
+                          value={destination.sheetUrl}
+                          onChange={(e) => updateDestination(destination.id, { sheetUrl: e.target.value })}
+                        />
+                        {destination.sheetUrl && !sheetId && (
+                          <p className="text-xs text-amber-600">Couldn't find a spreadsheet ID in this URL.</p>
+                        )}
+                        <Input 
+                          label="Tab (blank = first tab, created if missing)"
+                          value={destination.tab}
+                          onChange={(e) => updateDestination(destination.id, { tab: e.target.value })}
+                        />
+                        <Input 
+                          label="Script URL (blank = main script)"
+                          placeholder="https://script.google.com/macros/s/.../exec"
+                          value={destination.scriptUrl}
+                          onChange={(e) => updateDestination(destination.id, { scriptUrl: e.target.value })}
+                        />
+
+                        {renderSheetColumnPicker(destination.columns, columns => updateDestination(destination.id, { columns }))}
+                      </>
+                    )}
+
+                    <Button variant="danger" onClick={() => deleteDestination(destination.id)} className="w-full">
+                      <Trash2 className="w-4 h-4 mr-2" /> Delete Destination
+                    </Button>
+                  </div>
+                )}
               </Card>
-            ))}
+            );
+          })}
+        </div>
+
+        <Card className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-gray-800">Routing Rules</h3>
+            <button 
+              onClick={() => setSettings(prev => ({ ...prev, routingRules: [...prev.routingRules, createRoutingRule(prev.destinations[0]?.id || MAIN_DESTINATION_ID)] }))} 
+              className="text-xs text-blue-600 hover:underline"
+            >
+              + Add rule
+            </button>
           </div>
-        )}
+          <p className="text-xs text-gray-500">Vendor names containing the text go to the chosen destination. The longest match wins.</p>
+          {settings.routingRules.length === 0 && <p className="text-sm text-gray-400 text-center py-2">Everything goes to the Main Sheet.</p>}
+          {settings.routingRules.map(rule => (
+            <div key={rule.id} className="flex items-end gap-2">
+              <div className="flex-1">
+                <Input 
+                  placeholder="Vendor name contains…"
+                  value={rule.vendor}
+                  onChange={(e) => updateRoutingRule(rule.id, { vendor: e.target.value })}
+                />
+              </div>
+              <div className="flex-1">
+                <Select value={rule.destinationId} onChange={(e) => updateRoutingRule(rule.id, { destinationId: e.target.value })}>
+                  {destinations.map(d => <option key={d.id} value={d.id}>{d.name || 'Unnamed destination'}</option>)}
+                </Select>
+              </div>
+              <button onClick={() => setSettings(prev => ({ ...prev, routingRules: prev.routingRules.filter(r => r.id !== rule.id) }))} className="text-gray-300 hover:text-red-500 p-2">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </Card>
+
+        {/* Webhook Preview Modal */}
+        <Modal 
+          isOpen={webhookPreview !== null} 
+          onClose={() => setWebhookPreview(null)}
+          title="Request Preview"
+        >
+          <div className="space-y-3">
+            <p className="text-xs text-gray-500">Dry run — nothing was sent. This is the exact request an export would make.</p>
+            <pre className="bg-gray-50 border rounded-md p-3 text-xs font-mono text-gray-700 overflow-auto max-h-96 whitespace-pre-wrap break-all">{webhookPreview}</pre>
+            <Button 
+              variant="secondary" 
+              onClick={() => {
+                navigator.clipboard.writeText(webhookPreview || '');
+                setToastMessage("Request copied!");
+              }} 
+              className="w-full"
+            >
+              <Copy className="w-4 h-4 mr-2" /> Copy
+            </Button>
+          </div>
+        </Modal>
+      </div>
+    );
+  };
+
+  const renderVendorContactFields = (contact: VendorContact) => (
+    <div className="grid grid-cols-2 gap-2">
+      <Input 
+        label="Contact Name"
+        value={contact.contactName}
+        onChange={(e) => updateVendorContact(contact.id, { contactName: e.target.value })}
+      />
+      <Input 
+        label="Account #"
+        value={contact.accountNumber}
+        onChange={(e) => updateVendorContact(contact.id, { accountNumber: e.target.value })}
+      />
+      <Input 
+        label="Email"
+        type="email"
+        placeholder="orders@vendor.com"
+        value={contact.email}
+        onChange={(e) => updateVendorContact(contact.id, { email: e.target.value })}
+      />
+      <Input 
+        label="Phone"
+        type="tel"
+        value={contact.phone}
+        onChange={(e) => updateVendorContact(contact.id, { phone: e.target.value })}
+      />
+      <div className="col-span-2">
+        <Input 
+          label="Address"
+          value={contact.address}
+          onChange={(e) => updateVendorContact(contact.id, { address: e.target.value })}
+        />
       </div>
     </div>
   );
 
-  const renderScan = () => (
-    <div className="flex flex-col items-center justify-center h-[60vh] text-center px-4 space-y-4">
-      <Loader2 className="w-16 h-16 text-green-600 animate-spin" />
-      <div>
-        <h2 className="text-2xl font-bold text-gray-800 mb-2">
-          {loadingStep === 'uploading' ? 'Auto-Exporting...' : (scanMode === 'append' ? 'Processing Page...' : 'Analyzing Invoice...')}
-        </h2>
-        <p className="text-gray-500 animate-pulse">
-          {loadingStep === 'uploading' 
-            ? 'Sending data directly to your Google Sheet...' 
-            : 'Extracting vendors, items, and quantities...'}
-        </p>
+  const renderVendorContacts = () => (
+    <div className="space-y-6 pb-20">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" onClick={() => setView(AppView.SETTINGS)} className="pl-0">
+            <ArrowLeft className="w-5 h-5" /> Back
+          </Button>
+          <h2 className="text-2xl font-bold">Vendor Contacts</h2>
+        </div>
+        <Button variant="secondary" onClick={() => setVendorContacts(prev => [...prev, createVendorContact()])} className="px-3">
+          <Plus className="w-4 h-4" /> Add
+        </Button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Contacts are matched to scanned items by vendor name when purchase orders are generated.
+      </p>
+
+      {vendorContacts.length === 0 && (
+        <div className="text-center py-10 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+          <Contact className="w-12 h-12 mx-auto mb-2 opacity-20" />
+          <p>No vendor contacts yet.</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {vendorContacts.map(contact => (
+          <Card key={contact.id} className="p-4 space-y-3">
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Input 
+                  label="Vendor"
+                  placeholder="e.g. Asian Vegetables"
+                  value={contact.vendor}
+                  onChange={(e) => updateVendorContact(contact.id, { vendor: e.target.value })}
+                />
+              </div>
+              <button onClick={() => setVendorContacts(prev => prev.filter(c => c.id !== contact.id))} className="text-gray-300 hover:text-red-500 p-2">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {renderVendorContactFields(contact)}
+          </Card>
+        ))}
       </div>
     </div>
   );
 
-  const renderSettings = () => {
-    const isScriptUrlWarning = settings.scriptUrl && !settings.scriptUrl.endsWith('/exec');
+  const updateVendorProfile = (id: string, changes: Partial<VendorProfile>) => {
+    setVendorProfiles(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
 
-    return (
-      <div className="space-y-6 pb-20">
-         <div className="flex items-center gap-2 mb-6">
-            <Button variant="ghost" onClick={() => setView(AppView.DASHBOARD)} className="pl-0">
-              <ArrowLeft className="w-5 h-5" /> Back
-            </Button>
-            <h2 className="text-2xl font-bold">Automation Setup</h2>
-         </div>
+  const addVendorProfile = () => {
+    const profile = createVendorProfile();
+    setVendorProfiles(prev => [...prev, profile]);
+    setEditingProfileId(profile.id);
+  };
 
-         <Card className="p-5 space-y-4 border-blue-100 bg-blue-50">
-            <div className="flex justify-between items-center border-b border-blue-200 pb-2">
-              <h3 className="font-bold text-lg text-blue-900">1. Link Google Sheet</h3>
-              <Badge type={settings.scriptUrl ? 'success' : 'warning'}>{settings.scriptUrl ? 'Connected' : 'Not Linked'}</Badge>
-            </div>
-            
-            <div className="space-y-4">
-               <div className="text-sm text-gray-600 space-y-2">
-                  <p>Follow these steps to create a <strong>New Deployment</strong> (Fixes "No active deployment"):</p>
-                  <ol className="list-decimal pl-4 space-y-2 font-medium text-gray-800">
-                    <li>Go to <a href="https://script.google.com/home" target="_blank" className="text-blue-600 underline">script.google.com</a>.</li>
-                    <li>Create or Open your project.</li>
-                    <li className="relative group">
-                      <div className="bg-white border rounded-md p-2 text-xs font-mono text-gray-600 overflow-x-auto max-h-40">
-                        <pre>{SCRIPT_CODE}</pre>
-                        <Button 
-                          variant="secondary" 
-                          className="absolute top-2 right-2 h-8 text-xs"
-                          onClick={() => {
-                            navigator.clipboard.writeText(SCRIPT_CODE);
-                            setToastMessage("Code copied!");
-                          }}
-                        >
-                          <Copy className="w-3 h-3 mr-1" /> Copy Code
-                        </Button>
-                      </div>
-                      <p className="text-xs text-gray-500 mt-1">Paste this code into the editor (replace everything).</p>
-                    </li>
-                    <li>Click <strong>Deploy</strong> (Blue button, top right) &rarr; <strong>New Deployment</strong>.</li>
-                    <li>Click the Gear Icon ⚙️ (next to "Select type") &rarr; choose <strong>Web App</strong>.</li>
-                    <li className="text-red-600 font-bold bg-red-50 p-1 rounded">
-                      Who has access: Select "Anyone" (Required!)
-                    </li>
-                    <li>Click <strong>Deploy</strong> and copy the <strong>Web App URL</strong>.</li>
-                  </ol>
-               </div>
+  const deleteVendorProfile = (id: string) => {
+    setVendorProfiles(prev => prev.filter(p => p.id !== id));
+    if (editingProfileId === id) setEditingProfileId(null);
+  };
 
-               <Input 
-                  label="Paste Web App URL Here (/exec)" 
-                  placeholder="https://script.google.com/macros/s/.../exec"
-                  value={settings.scriptUrl}
-                  onChange={(e) => setSettings({...settings, scriptUrl: e.target.value})}
-                />
-                
-                {isScriptUrlWarning && (
-                  <div className="flex items-center gap-2 text-amber-600 text-xs font-bold bg-amber-50 p-2 rounded">
-                    <AlertTriangle className="w-4 h-4" />
-                    Warning: URL should end in '/exec'. Do not use '/edit' or '/dev'.
+  const moveProfileColumn = (profile: VendorProfile, column: SheetColumn, direction: -1 | 1) => {
+    const columns = [...profile.columns];
+    const index = columns.indexOf(column);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= columns.length) return;
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    updateVendorProfile(profile.id, { columns });
+  };
+
+  const toggleProfileColumn = (profile: VendorProfile, column: SheetColumn) => {
+    const columns = profile.columns.includes(column)
+      ? profile.columns.filter(c => c !== column)
+      : [...profile.columns, column];
+    updateVendorProfile(profile.id, { columns });
+  };
+
+  const renderVendorProfiles = () => (
+    <div className="space-y-6 pb-20">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" onClick={() => setView(AppView.SETTINGS)} className="pl-0">
+            <ArrowLeft className="w-5 h-5" /> Back
+          </Button>
+          <h2 className="text-2xl font-bold">Vendor Layouts</h2>
+        </div>
+        <Button variant="secondary" onClick={addVendorProfile} className="px-3">
+          <Plus className="w-4 h-4" /> Add
+        </Button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Each scan first reads the printed header. If it matches a layout below, the extraction uses that layout's columns.
+        Sheets that match nothing use the standard layout.
+      </p>
+
+      {vendorProfiles.length === 0 && (
+        <div className="text-center py-10 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+          <LayoutList className="w-12 h-12 mx-auto mb-2 opacity-20" />
+          <p>No vendor layouts yet.</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {vendorProfiles.map(profile => {
+          const isEditing = editingProfileId === profile.id;
+          // Present columns first (in sheet order), then the ones this sheet doesn't have
+          const columnRows = [...profile.columns, ...ALL_SHEET_COLUMNS.filter(c => !profile.columns.includes(c))];
+
+          return (
+            <Card key={profile.id} className="p-4 space-y-3">
+              <div className="flex justify-between items-center cursor-pointer" onClick={() => setEditingProfileId(isEditing ? null : profile.id)}>
+                <div>
+                  <div className="font-semibold text-gray-800">{profile.name || 'Unnamed Vendor'}</div>
+                  <div className="text-xs text-gray-500">
+                    {profile.columns.map(c => SHEET_COLUMN_LABELS[c]).join(' | ')}
                   </div>
-                )}
-                
-                <div className="flex gap-2">
-                  <Button 
-                    onClick={async () => {
-                      if (!settings.scriptUrl) {
-                        setToastMessage("Paste a URL first!");
-                        return;
-                      }
-                      setToastMessage("Testing connection...");
-                      const success = await uploadToScript([{
-                        id: 'test', description: 'Connection Test', vendor: 'Test', inStock: 1, par: 1, order: 0, price: 0
-                      }], settings.scriptUrl);
-                      if (success) {
-                        setToastMessage("Connection Successful! ✅");
-                      } else {
-                        setToastMessage("Connection Failed. Check 'Who has access' is set to 'Anyone'");
-                      }
-                    }}
-                    className="w-full"
-                    variant="secondary"
+                </div>
+                {isEditing ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+              </div>
+
+              {isEditing && (
+                <div className="space-y-4 pt-3 border-t">
+                  <Input 
+                    label="Vendor Name"
+                    placeholder="e.g. Asian Vegetables"
+                    value={profile.name}
+                    onChange={(e) => updateVendorProfile(profile.id, { name: e.target.value })}
+                  />
+                  <Input 
+                    key={`${profile.id}-header`}
+                    label="Header Text to Match (comma separated)"
+                    placeholder="e.g. Asian Vegetables, Vien Dong"
+                    defaultValue={profile.headerMatch.join(', ')}
+                    onBlur={(e) => updateVendorProfile(profile.id, {
+                      headerMatch: e.target.value.split(',').map(t => t.trim()).filter(Boolean)
+                    })}
+                  />
+
+                  <div className="space-y-1">
+                    <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Columns (Left to Right)</label>
+                    {columnRows.map(column => {
+                      const present = profile.columns.includes(column);
+                      const index = profile.columns.indexOf(column);
+                      return (
+                        <div key={column} className={`flex items-center gap-2 rounded px-2 py-1 ${present ? 'bg-gray-50' : 'opacity-50'}`}>
+                          <input 
+                            type="checkbox"
+                            checked={present}
+                            disabled={column === 'description'}
+                            onChange={() => toggleProfileColumn(profile, column)}
+                          />
+                          <span className="flex-1 text-sm">{present ? `${index + 1}. ` : ''}{SHEET_COLUMN_LABELS[column]}</span>
+                          {present && (
+                            <>
+                              <button onClick={() => moveProfileColumn(profile, column, -1)} disabled={index === 0} className="p-1 text-gray-500 disabled:opacity-30">
+                                <ChevronUp className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => moveProfileColumn(profile, column, 1)} disabled={index === profile.columns.length - 1} className="p-1 text-gray-500 disabled:opacity-30">
+                                <ChevronDown className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select 
+                      label="Price"
+                      value={profile.priceHandling}
+                      onChange={(e) => updateVendorProfile(profile.id, { priceHandling: e.target.value as VendorProfile['priceHandling'] })}
+                    >
+                      <option value="column">Read price column</option>
+                      <option value="none">No price on sheet</option>
+                    </Select>
+                    <Select 
+                      label="Weight"
+                      value={profile.weightHandling}
+                      onChange={(e) => updateVendorProfile(profile.id, { weightHandling: e.target.value as VendorProfile['weightHandling'] })}
+                    >
+                      <option value="ignore">Ignore weight</option>
+                      <option value="capture">Capture weight</option>
+                    </Select>
+                  </div>
+                  <Select 
+                    label="Prices Quoted"
+                    value={profile.priceBasis || 'unit'}
+                    onChange={(e) => updateVendorProfile(profile.id, { priceBasis: e.target.value as PriceBasis })}
                   >
-                    Test Connection
+                    <option value="unit">Per unit (case, each, bunch...)</option>
+                    <option value="weight">Per weight (lb, kg...)</option>
+                  </Select>
+
+                  <Button variant="danger" onClick={() => deleteVendorProfile(profile.id)} className="w-full">
+                    <Trash2 className="w-4 h-4" /> Delete Layout
                   </Button>
                 </div>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
 
-               <div className="flex items-center justify-between pt-4 border-t border-blue-200">
-                  <div>
-                     <span className="font-semibold text-gray-800 flex items-center gap-2">
-                       <Zap className="w-4 h-4 text-orange-500" fill="currentColor" /> Auto-Export
-                     </span>
-                     <p className="text-xs text-gray-500">Upload immediately after scan</p>
-                  </div>
-                  <Switch 
-                    checked={settings.autoExport} 
-                    onChange={(val) => setSettings({...settings, autoExport: val})} 
-                  />
-               </div>
-            </div>
-         </Card>
+  // Indigo edge on cells a person changed from what was scanned
+  const editedClass = (item: InvoiceItem, field: ScannedField) =>
+    isFieldChanged(item, field) ? 'border-l-2 border-l-indigo-400' : '';
 
-         <Card className="p-5 space-y-4">
-            <h3 className="font-bold text-lg border-b pb-2">Fallback Settings</h3>
-            <p className="text-xs text-gray-500">If automation fails, we will open this sheet for manual pasting.</p>
-            <Input 
-              label="Target Google Sheet URL" 
-              value={settings.googleSheetUrl}
-              onChange={(e) => setSettings({...settings, googleSheetUrl: e.target.value})}
-            />
-         </Card>
+  // Unit, weight and pricing basis under each review row, with the line total they produce
+  const renderItemUnits = (item: InvoiceItem) => {
+    const total = lineTotal(item, catalog);
+    const weightUnit = normalizeUnit(item.weightUnit || DEFAULT_WEIGHT_UNIT);
+    return (
+      <div className="flex flex-wrap items-center gap-2 mt-2 pt-2 border-t border-gray-100 text-xs text-gray-500">
+        <input
+          className={`w-16 bg-gray-50 rounded px-1 py-0.5 border border-gray-200 focus:border-blue-500 focus:outline-none ${editedClass(item, 'unit')}`}
+          value={item.unit || ''}
+          onChange={(e) => updateItem(item.id, 'unit', e.target.value)}
+          onBlur={(e) => updateItem(item.id, 'unit', normalizeUnit(e.target.value) || undefined)}
+          placeholder="unit"
+          title="What the counts are in, e.g. case, each, lb"
+        />
+        {item.caseSize && <span>{item.caseSize}/cs</span>}
+        <span className="flex items-center gap-1">
+          Wt
+          <input
+            type="number"
+            step="0.01"
+            className={`w-14 bg-gray-50 rounded px-1 py-0.5 border border-gray-200 focus:border-blue-500 focus:outline-none ${editedClass(item, 'weight')}`}
+            value={item.weight ?? ''}
+            onChange={(e) => updateItem(item.id, 'weight', e.target.value === '' ? undefined : Number(e.target.value))}
+            placeholder="-"
+            title="Weight of one unit"
+          />
+          <select
+            className="bg-transparent focus:outline-none"
+            value={weightUnit}
+            onChange={(e) => updateItem(item.id, 'weightUnit', e.target.value)}
+          >
+            {WEIGHT_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+          </select>
+        </span>
+        <select
+          className="bg-transparent focus:outline-none"
+          value={item.priceBasis || 'unit'}
+          onChange={(e) => updateItem(item.id, 'priceBasis', e.target.value as PriceBasis)}
+          title="Whether the price is per counted unit or per weight"
+        >
+          <option value="unit">$ per {normalizeUnit(item.priceUnit || item.unit) || 'unit'}</option>
+          <option value="weight">$ per {normalizeUnit(item.priceUnit) || weightUnit}</option>
+        </select>
+        <span className="ml-auto" title={total === undefined && Number(item.price) ? "Can't work out the total: add a weight or a unit conversion" : undefined}>
+          {total !== undefined ? formatMoney(total) : Number(item.price) ? <span className="text-amber-600">no total</span> : ''}
+        </span>
       </div>
     );
-  }
+  };
 
   const renderReview = () => {
     const totalOrder = items.reduce((sum, item) => sum + item.order, 0);
+    const orderTotals = orderTotalsByUnit(items);
+    const ordered = items.filter(item => Number(item.order) > 0);
+    const orderValue = ordered.reduce((sum, item) => sum + (lineTotal(item, catalog) ?? 0), 0);
+    const unpricedOrders = ordered.filter(item => lineTotal(item, catalog) === undefined).length;
+    const uncertainCount = getUncertainCells(items).length;
+    const currentRecord = history.find(r => r.id === currentRecordId);
+
+    // Amber highlight for low-confidence cells that still need a human look
+    const confidenceClass = (item: InvoiceItem, field: ConfidenceField) =>
+      needsReview(item, field) ? 'ring-2 ring-amber-400 bg-amber-50' : '';
+
+    const cellProps = (item: InvoiceItem, field: ConfidenceField) => ({
+      id: getCellElementId(item.id, field),
+      onBlur: () => needsReview(item, field) && markReviewed(item.id, field),
+      title: item.confidence?.[field] !== undefined ? `Confidence: ${Math.round(item.confidence[field]! * 100)}%` : undefined
+    });
 
     return (
       <div className="flex flex-col h-full relative pb-28">
@@ -636,9 +2985,34 @@ function doPost(e) {
              <Button variant="ghost" onClick={() => setView(AppView.DASHBOARD)} className="pl-0 pr-2">
                <ArrowLeft className="w-5 h-5" />
              </Button>
-             <h2 className="text-lg font-bold">Review ({items.length})</h2>
+             <div>
+               <h2 className="text-lg font-bold">Review ({items.length})</h2>
+               {currentRecord && (
+                 <div className="text-[10px] text-gray-400 -mt-1">
+                   {recordLabel(currentRecord)}{(currentRecord.revision || 1) > 1 ? ` rev ${currentRecord.revision}` : ''} • {RECORD_STATUS_BADGES[currentRecord.status].label}
+                   {currentRecord.status === 'Draft' && ' (autosaved)'}
+                 </div>
+               )}
+             </div>
           </div>
           <div className="flex gap-1">
+             {uncertainCount > 0 && (
+               <Button variant="secondary" onClick={jumpToNextUncertain} className="px-2 border-amber-300 text-amber-700" title="Jump to next uncertain cell">
+                  <ScanEye className="w-5 h-5" />
+                  <span className="text-xs font-bold">{uncertainCount}</span>
+               </Button>
+             )}
+             {currentRecord?.versions && currentRecord.versions.length > 0 && (
+               <Button variant="secondary" onClick={() => setShowVersions(true)} className="px-2" title="Earlier versions of this record">
+                  <History className="w-5 h-5 text-gray-600" />
+               </Button>
+             )}
+             <Button variant="secondary" onClick={undoEdit} disabled={editHistory.undo.length === 0} className="px-2" title={editHistory.undo.length > 0 ? `Undo ${editHistory.undo[editHistory.undo.length - 1].label}` : 'Nothing to undo'}>
+                <Undo2 className="w-5 h-5 text-gray-600" />
+             </Button>
+             <Button variant="secondary" onClick={redoEdit} disabled={editHistory.redo.length === 0} className="px-2" title={editHistory.redo.length > 0 ? `Redo ${editHistory.redo[editHistory.redo.length - 1].label}` : 'Nothing to redo'}>
+                <Redo2 className="w-5 h-5 text-gray-600" />
+             </Button>
              <Button variant="secondary" onClick={sortItems} className="px-2" title="Sort by Name">
                 <ArrowDownAZ className="w-5 h-5 text-gray-600" />
              </Button>
@@ -670,11 +3044,20 @@ function doPost(e) {
 
         <div className="flex-1 overflow-y-auto space-y-2">
           {items.map((item) => (
-            <Card key={item.id} className="p-3">
-              <div className="grid grid-cols-12 gap-1 items-center">
+            <Card key={item.id} className={`p-3 ${expandedItemId === item.id ? 'ring-2 ring-blue-200' : ''}`}>
+              {expandedItemId === item.id && item.pageId && (
+                <div className="mb-2">
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase">Original Sheet</span>
+                    <button onClick={() => setExpandedItemId(null)} className="text-xs text-gray-400 hover:text-gray-600">Hide</button>
+                  </div>
+                  <RowCrop pageId={item.pageId} box={item.rowBox} />
+                </div>
+              )}
+              <div className="grid grid-cols-12 gap-1 items-center" onClick={() => item.pageId && setExpandedItemId(item.id)}>
                  <div className="col-span-3">
                    <input 
-                    className="w-full text-xs text-gray-500 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none"
+                    className={`w-full text-xs text-gray-500 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none ${editedClass(item, 'vendor')}`}
                     value={item.vendor} 
                     onChange={(e) => updateItem(item.id, 'vendor', e.target.value)}
                     placeholder="Vendor"
@@ -682,44 +3065,82 @@ function doPost(e) {
                 </div>
                 <div className="col-span-3">
                    <input 
-                    className="w-full font-medium text-gray-800 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none text-sm"
+                    {...cellProps(item, 'description')}
+                    className={`w-full font-medium text-gray-800 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none text-sm rounded-sm ${confidenceClass(item, 'description')} ${editedClass(item, 'description')}`}
                     value={item.description} 
                     onChange={(e) => updateItem(item.id, 'description', e.target.value)}
                     placeholder="Item"
                   />
+                  {item.catalogId ? (
+                    <div className="text-[10px] font-mono text-gray-400">{item.catalogId}</div>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-1 text-[10px]">
+                        <span className="text-amber-600 font-bold">Unmatched</span>
+                        <button onClick={() => { setCatalogSearch(''); setLinkingItemId(item.id); }} className="text-blue-600 hover:underline">Link</button>
+                        <button onClick={() => createCatalogEntry(item.id)} className="text-blue-600 hover:underline">New</button>
+                      </div>
+                      {/* Close but not certain enough to apply on its own; one tap links it */}
+                      {(() => {
+                        const suggestion = item.description.trim() ? suggestCatalogItem(item.description, item.vendor, catalog) : undefined;
+                        return suggestion && (
+                          <button onClick={() => linkItemToCatalog(item.id, suggestion.item)} className="block text-[10px] text-blue-600 hover:underline text-left truncate max-w-full">
+                            Is it {suggestion.item.name}?
+                          </button>
+                        );
+                      })()}
+                    </>
+                  )}
                 </div>
                 <div className="col-span-1">
                    <input 
+                    {...cellProps(item, 'inStock')}
                     type="number"
-                    className="w-full text-center bg-gray-50 rounded p-1 border border-gray-200 focus:border-blue-500 focus:outline-none text-sm px-0"
+                    className={`w-full text-center bg-gray-50 rounded p-1 border border-gray-200 focus:border-blue-500 focus:outline-none text-sm px-0 ${confidenceClass(item, 'inStock')} ${editedClass(item, 'inStock')}`}
                     value={item.inStock} 
                     onChange={(e) => updateItem(item.id, 'inStock', e.target.value)}
                   />
                 </div>
                 <div className="col-span-1">
                   <input 
+                    {...cellProps(item, 'par')}
                     type="number"
-                    className="w-full text-center bg-gray-50 rounded p-1 border border-gray-200 focus:border-blue-500 focus:outline-none text-sm px-0"
+                    className={`w-full text-center bg-gray-50 rounded p-1 border border-gray-200 focus:border-blue-500 focus:outline-none text-sm px-0 ${confidenceClass(item, 'par')} ${editedClass(item, 'par')}`}
                     value={item.par} 
                     onChange={(e) => updateItem(item.id, 'par', e.target.value)}
                   />
+                  {item.parSource && (
+                    <div className={`text-[9px] text-center uppercase ${PAR_SOURCE_STYLES[item.parSource].className}`} title={PAR_SOURCE_STYLES[item.parSource].title}>
+                      {PAR_SOURCE_STYLES[item.parSource].label}
+                    </div>
+                  )}
                 </div>
                 <div className="col-span-1">
                    <div className={`w-full flex items-center justify-center rounded font-bold text-sm ${item.order > 0 ? 'text-red-700' : 'text-green-700'}`}>
                      <input 
+                      {...cellProps(item, 'order')}
                       type="number"
-                      className="w-full text-center bg-transparent focus:outline-none p-0"
+                      className={`w-full text-center bg-transparent focus:outline-none p-0 rounded ${confidenceClass(item, 'order')} ${editedClass(item, 'order')}`}
                       value={item.order}
                       onChange={(e) => updateItem(item.id, 'order', Number(e.target.value))}
                      />
                    </div>
+                   {item.rawNeed !== undefined && item.rawNeed !== item.order && (
+                     <div 
+                       className="text-[9px] text-center text-purple-600 whitespace-nowrap" 
+                       title={`Need ${item.rawNeed} → order ${item.order}${findOrderRule(item, orderRules) ? `: ${describeOrderRule(findOrderRule(item, orderRules)!)}` : ''}`}
+                     >
+                       need {item.rawNeed}
+                     </div>
+                   )}
                 </div>
                 <div className="col-span-3 flex justify-center relative items-center gap-1">
                   <span className="text-gray-400 text-xs">$</span>
                   <input 
+                    {...cellProps(item, 'price')}
                     type="number"
                     step="0.01"
-                    className="w-full text-center bg-gray-50 rounded p-1 border border-gray-200 focus:border-blue-500 focus:outline-none text-sm"
+                    className={`w-full text-center bg-gray-50 rounded p-1 border border-gray-200 focus:border-blue-500 focus:outline-none text-sm ${confidenceClass(item, 'price')} ${editedClass(item, 'price')}`}
                     value={item.price || ''} 
                     onChange={(e) => updateItem(item.id, 'price', e.target.value)}
                     placeholder="0.00"
@@ -729,74 +3150,457 @@ function doPost(e) {
                    </button>
                 </div>
               </div>
+              {renderItemUnits(item)}
+              {item.scanned && changedFields(item).length > 0 && (
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 pt-2 border-t border-gray-100 text-[10px]">
+                  <span className="font-bold uppercase text-indigo-600">Edited</span>
+                  {changedFields(item).map(field => (
+                    <button
+                      key={field}
+                      onClick={() => revertToScanned(item.id, field)}
+                      className="flex items-center gap-0.5 text-gray-500 hover:text-indigo-600"
+                      title="Revert to scanned value"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {SCANNED_FIELD_LABELS[field]}: {item.scanned![field] === undefined || item.scanned![field] === '' ? 'blank' : String(item.scanned![field])}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {(() => {
+                const usage = getItemUsage(usageIndex, item);
+                const suggested = suggestPar(usage, settings.daysOfCover);
+                if (suggested === undefined) return null;
+
+                return (
+                  <div className="flex items-center gap-2 mt-2 pt-2 border-t border-gray-100 text-xs">
+                    <button onClick={() => setUsageItemId(item.id)} className="flex items-center gap-1 text-gray-500 hover:text-blue-600">
+                      <TrendingUp className="w-3 h-3" /> {usage.dailyRate.toFixed(1)}/day
+                    </button>
+                    {suggested !== Number(item.par) && (
+                      <>
+                        <span className="text-gray-400">•</span>
+                        <span className="text-blue-700">Suggested PAR <strong>{suggested}</strong></span>
+                        <button onClick={() => updateItem(item.id, 'par', suggested)} className="ml-auto text-blue-600 font-bold hover:underline">
+                          Accept
+                        </button>
+                      </>
+                    )}
+                  </div>
+                );
+              })()}
             </Card>
           ))}
         </div>
 
         <div className="fixed bottom-0 left-0 right-0 bg-white border-t p-4 z-20 max-w-2xl mx-auto shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)]">
+           {uncertainCount > 0 && (
+             <button onClick={jumpToNextUncertain} className="w-full flex items-center gap-2 text-amber-700 text-xs font-bold bg-amber-50 p-2 rounded mb-3">
+               <AlertTriangle className="w-4 h-4" />
+               {uncertainCount} uncertain cell(s) to check — tap to jump to the next one
+             </button>
+           )}
            <div className="flex items-center justify-between mb-3 text-sm">
               <span className="text-gray-500">Total Items: {items.length}</span>
               <div className="flex items-center gap-2">
                  <span className="text-gray-500">Total Order:</span>
-                 <span className="font-bold text-lg text-gray-900">{totalOrder}</span>
+                 <span className="font-bold text-lg text-gray-900" title={orderTotals.map(t => formatQuantity(t.quantity, t.unit)).join(', ')}>
+                   {orderTotals.length > 1 || orderTotals[0]?.unit
+                     ? orderTotals.map(t => formatQuantity(t.quantity, t.unit)).join(' + ')
+                     : totalOrder}
+                 </span>
               </div>
            </div>
+           {orderValue > 0 && (
+             <div className="flex items-center justify-between -mt-2 mb-3 text-xs text-gray-500">
+               <span>{unpricedOrders > 0 ? `${unpricedOrders} ordered item(s) without a line total` : 'All ordered items priced'}</span>
+               <span>Est. <strong className="text-gray-900">{formatMoney(orderValue)}</strong></span>
+             </div>
+           )}
            
-           <Button onClick={handleManualExport} className="w-full bg-green-600 hover:bg-green-700 text-white shadow-lg shadow-green-200 py-3 text-lg">
-              Export / Upload <Sheet className="w-5 h-5 ml-2" />
-           </Button>
+           <div className="flex gap-2">
+             <Button onClick={handleManualExport} className="flex-1 bg-green-600 hover:bg-green-700 text-white shadow-lg shadow-green-200 py-3 text-lg">
+                Export / Upload <Sheet className="w-5 h-5 ml-2" />
+             </Button>
+             <Button variant="secondary" onClick={generatePurchaseOrders} title="Generate purchase orders per vendor">
+               <ClipboardList className="w-5 h-5" />
+             </Button>
+             <Button 
+               variant="secondary" 
+               onClick={() => {
+                 setExportModalMode('download');
+                 setShowExportModal(true);
+               }}
+               title="Download as CSV, XLSX, JSON or PDF"
+             >
+               <Download className="w-5 h-5" />
+             </Button>
+           </div>
         </div>
 
+        {/* Version History Modal */}
+        <Modal
+          isOpen={showVersions && !!currentRecord}
+          onClose={() => setShowVersions(false)}
+          title="Version History"
+        >
+          {currentRecord && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600">
+                Each export of {recordLabel(currentRecord)} is kept when the record is edited again. Restoring brings a version back as a draft; the current contents are kept as a version too.
+              </p>
+              {[...(currentRecord.versions || [])].reverse().map(version => (
+                <div key={`${version.revision}-${version.savedAt}`} className="flex justify-between items-center border rounded-lg p-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-800">
+                      Revision {version.revision} <Badge type={RECORD_STATUS_BADGES[version.status].type}>{RECORD_STATUS_BADGES[version.status].label}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(version.savedAt).toLocaleString()} • {version.items.length} Items • order {version.items.reduce((sum, item) => sum + Number(item.order), 0)}
+                    </div>
+                  </div>
+                  <Button variant="secondary" onClick={() => restoreRecordVersion(currentRecord, version)} className="px-3 py-1 text-sm">
+                    Restore
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Modal>
+
+        {/* Merge Duplicates Modal */}
+        <Modal
+          isOpen={mergeConflicts.length > 0}
+          onClose={() => setMergeConflicts([])}
+          title={`Merge ${mergeConflicts.length} Duplicate Row(s)`}
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              These items were scanned more than once. Choose which count to keep — duplicates are never exported twice.
+            </p>
+            <div className="max-h-80 overflow-y-auto space-y-3">
+              {mergeConflicts.map(conflict => {
+                const { older, newer } = conflict;
+                const choice = mergeChoices[newer.id] || 'newer';
+                const summable = canSum(conflict, catalog);
+                return (
+                  <div key={newer.id} className="border rounded-lg p-3 space-y-2">
+                    <div>
+                      <div className="text-sm font-medium text-gray-800">{older.description}</div>
+                      <div className="text-xs text-gray-500">{older.vendor || 'No vendor'}{older.catalogId ? ` • ${older.catalogId}` : ''}</div>
+                    </div>
+                    <div className="grid grid-cols-5 gap-1 text-xs text-center">
+                      <span />
+                      {MERGE_FIELDS.map(field => <span key={field} className="text-gray-400 uppercase">{SHEET_COLUMN_LABELS[field]}</span>)}
+                      <span className="text-left text-gray-500">Older</span>
+                      {MERGE_FIELDS.map(field => <span key={field}>{older[field]}</span>)}
+                      <span className="text-left text-gray-500">Newer</span>
+                      {MERGE_FIELDS.map(field => (
+                        <span key={field} className={Number(older[field]) !== Number(newer[field]) ? 'font-bold text-amber-700' : ''}>{newer[field]}</span>
+                      ))}
+                    </div>
+                    {!hasDifferences(conflict) && <p className="text-xs text-gray-400">Identical values.</p>}
+                    <div className="flex gap-1">
+                      {([['newer', 'Keep newer'], ['older', 'Keep older'], ['sum', 'Sum']] as [MergeChoice, string][]).map(([value, label]) => (
+                        <button
+                          key={value}
+                          onClick={() => setMergeChoices(prev => ({ ...prev, [newer.id]: value }))}
+                          disabled={value === 'sum' && !summable}
+                          title={value === 'sum' && !summable ? `Can't add ${newer.unit} to ${older.unit}: add a conversion to the catalog item` : undefined}
+                          className={`flex-1 text-xs py-1.5 rounded border disabled:opacity-40 disabled:cursor-not-allowed ${choice === value ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <Button onClick={applyMerge} className="w-full">
+              <Combine className="w-4 h-4 mr-2" /> Merge Rows
+            </Button>
+          </div>
+        </Modal>
+
+        {/* Export Results Modal */}
+        <Modal 
+          isOpen={exportResults !== null} 
+          onClose={() => {
+            setExportResults(null);
+            setView(AppView.DASHBOARD);
+          }}
+          title="Export Results"
+        >
+          <div className="space-y-2">
+            {(exportResults || []).map(result => (
+              <div key={result.destinationId} className="flex justify-between items-center border rounded-lg p-3 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-800">{result.name}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {result.rows} row(s){result.error ? ` • ${result.error}` : ''}
+                  </div>
+                </div>
+                {result.status === 'sent' && <Badge type="success">Sent</Badge>}
+                {result.status === 'duplicate' && <Badge type="info">Already sent</Badge>}
+                {result.status === 'queued' && <Badge type="warning">Queued for retry</Badge>}
+                {result.status === 'skipped' && <Badge type="warning">Not set up</Badge>}
+              </div>
+            ))}
+            {(exportResults || []).filter(result => result.outcomes).map(result => (
+              <details key={`${result.destinationId}-rows`} className="border rounded-lg p-3 text-sm">
+                <summary className="cursor-pointer font-medium text-gray-800">
+                  {exportResults.length > 1 ? `${result.name}: ` : ''}{summarizeOutcomes(result.outcomes)}
+                </summary>
+                <div className="mt-2 max-h-64 overflow-y-auto divide-y">
+                  {result.outcomes.map((outcome, i) => (
+                    <div key={i} className="flex justify-between items-center py-1.5">
+                      <div className="min-w-0">
+                        <div className="text-gray-800 truncate">{outcome.description}</div>
+                        <div className="text-xs text-gray-500">{outcome.vendor}</div>
+                      </div>
+                      {outcome.status === 'updated' ? <Badge type="info">Updated</Badge> : <Badge type="success">Inserted</Badge>}
+                    </div>
+                  ))}
+                </div>
+              </details>
+            ))}
+          </div>
+        </Modal>
+
+        {/* Purchase Orders Modal */}
+        <Modal 
+          isOpen={showPurchaseOrders} 
+          onClose={() => setShowPurchaseOrders(false)}
+          title={`Purchase Orders (${purchaseOrders.length})`}
+        >
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              One PO per vendor for rows with an order. Numbers are kept if you edit the review and generate again.
+            </p>
+            <div className="max-h-96 overflow-y-auto space-y-2">
+              {purchaseOrders.map(po => {
+                const contact = findVendorContact(vendorContacts, po.vendor);
+                return (
+                  <div key={po.number} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <div className="text-sm font-semibold text-gray-800">{po.vendor}</div>
+                        <div className="text-xs text-gray-500">{po.number} • {po.lines.length} line(s) • {formatMoney(po.total)}</div>
+                      </div>
+                      <button onClick={() => editVendorContact(po.vendor)} className="text-xs text-blue-600 hover:underline">
+                        {contact?.email || (contact ? 'Edit contact' : 'Add contact')}
+                      </button>
+                    </div>
+                    {contact && editingContactId === contact.id && renderVendorContactFields(contact)}
+                    <div className="flex gap-2">
+                      <Button variant="secondary" onClick={() => downloadPurchaseOrder(po, 'pdf')} className="flex-1 text-sm py-1.5">
+                        <FileText className="w-4 h-4 mr-1" /> PDF
+                      </Button>
+                      <Button variant="secondary" onClick={() => downloadPurchaseOrder(po, 'eml')} className="flex-1 text-sm py-1.5">
+                        <Mail className="w-4 h-4 mr-1" /> Email Draft
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-400">PO numbers are saved with this record when you export.</p>
+          </div>
+        </Modal>
+
+        {/* Usage Chart Modal */}
+        <Modal 
+          isOpen={usageItemId !== null} 
+          onClose={() => setUsageItemId(null)}
+          title={`Usage: ${items.find(i => i.id === usageItemId)?.description || ''}`}
+        >
+          {(() => {
+            const usageItem = items.find(i => i.id === usageItemId);
+            if (!usageItem) return null;
+            const usage = getItemUsage(usageIndex, usageItem);
+            const suggested = suggestPar(usage, settings.daysOfCover);
+
+            return (
+              <div className="space-y-4">
+                <UsageChart usage={usage} suggestedPar={suggested} daysOfCover={settings.daysOfCover} />
+                {suggested !== undefined && suggested !== Number(usageItem.par) && (
+                  <Button 
+                    onClick={() => {
+                      updateItem(usageItem.id, 'par', suggested);
+                      setUsageItemId(null);
+                    }} 
+                    className="w-full"
+                  >
+                    Set PAR to {suggested} (currently {usageItem.par})
+                  </Button>
+                )}
+              </div>
+            );
+          })()}
+        </Modal>
+
+        {/* Link To Catalog Modal */}
+        <Modal 
+          isOpen={linkingItemId !== null} 
+          onClose={() => setLinkingItemId(null)}
+          title="Link to Catalog Item"
+        >
+          {(() => {
+            const linkingItem = items.find(i => i.id === linkingItemId);
+            if (!linkingItem) return null;
+            const query = catalogSearch.toLowerCase();
+            const candidates = rankCatalogMatches(linkingItem.description, '', catalog)
+              .filter(m => !query || m.item.name.toLowerCase().includes(query) || m.item.id.toLowerCase().includes(query))
+              .slice(0, 20);
+
+            return (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">Scanned as <strong>"{linkingItem.description}"</strong>. The spelling will be saved as an alias.</p>
+                <Input 
+                  placeholder="Search catalog"
+                  value={catalogSearch}
+                  onChange={(e) => setCatalogSearch(e.target.value)}
+                />
+                <div className="max-h-64 overflow-y-auto space-y-1">
+                  {candidates.length === 0 && <p className="text-sm text-gray-400 text-center py-4">No catalog items found.</p>}
+                  {candidates.map(({ item: c, score }) => (
+                    <button 
+                      key={c.id} 
+                      onClick={() => linkItemToCatalog(linkingItem.id, c)}
+                      className="w-full flex items-center justify-between text-left p-2 rounded hover:bg-blue-50"
+                    >
+                      <div>
+                        <div className="text-sm font-medium text-gray-800 flex items-center gap-1">
+                          <Link2 className="w-3 h-3 text-gray-400" /> {c.name}
+                        </div>
+                        <div className="text-xs text-gray-500">{c.id}{c.vendor ? ` • ${c.vendor}` : ''}</div>
+                      </div>
+                      <span className="text-xs text-gray-400">{Math.round(score * 100)}%</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })()}
+        </Modal>
+
         {/* Manual Export Modal */}
         <Modal 
           isOpen={showExportModal} 
           onClose={() => setShowExportModal(false)}
-          title="Export Data"
+          title={exportModalMode === 'download' ? 'Download File' : 'Export Data'}
         >
           <div className="space-y-4">
-             <div className="bg-blue-50 text-blue-800 p-3 rounded-lg text-sm flex items-start gap-2">
-               <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
-               <p>
-                 {settings.scriptUrl 
-                   ? "Auto-export encountered an issue. Please paste manually." 
-                   : "Since automation isn't set up, the data has been copied to your clipboard."}
-               </p>
-             </div>
+             {exportModalMode === 'paste' && (
+               <div className="space-y-4">
+                 <div className="bg-blue-50 text-blue-800 p-3 rounded-lg text-sm flex items-start gap-2">
+                   <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                   <p>
+                     {settings.scriptUrl 
+                       ? "Auto-export encountered an issue. Please paste manually." 
+                       : "Since automation isn't set up, the data has been copied to your clipboard."}
+                   </p>
+                 </div>
              
-             <div className="space-y-2 text-sm text-gray-600">
-               <p className="font-bold text-gray-900">Manual Steps (Troubleshooting):</p>
-               <ul className="list-disc pl-5 space-y-1">
-                 <li>Did you set "Who has access" to "Anyone"?</li>
-                 <li>Did you select "New Deployment" when updating code?</li>
-               </ul>
-               <p className="font-bold text-gray-900 mt-2">To Paste Manually:</p>
-               <ol className="list-decimal pl-5 space-y-2">
-                 <li>Click <strong>Open Sheet</strong> below.</li>
-                 <li>Click the first empty cell under "Vendor".</li>
-                 <li>Paste (<span className="font-mono bg-gray-100 px-1 rounded">Ctrl+V</span>).</li>
-               </ol>
-             </div>
+                 <div className="space-y-2 text-sm text-gray-600">
+                   <p className="font-bold text-gray-900">Manual Steps (Troubleshooting):</p>
+                   <ul className="list-disc pl-5 space-y-1">
+                     <li>Did you set "Who has access" to "Anyone"?</li>
+                     <li>Did you select "New Deployment" when updating code?</li>
+                   </ul>
+                   <p className="font-bold text-gray-900 mt-2">To Paste Manually:</p>
+                   <ol className="list-decimal pl-5 space-y-2">
+                     <li>Click <strong>Open Sheet</strong> below.</li>
+                     <li>Click the first empty cell under "Vendor".</li>
+                     <li>Paste (<span className="font-mono bg-gray-100 px-1 rounded">Ctrl+V</span>).</li>
+                   </ol>
+                 </div>
 
-             <div className="pt-2">
-               <a 
-                 href={settings.googleSheetUrl} 
-                 target="_blank" 
-                 rel="noreferrer"
-                 onClick={() => setTimeout(() => {
-                   setShowExportModal(false);
-                   setView(AppView.DASHBOARD);
-                 }, 500)}
-                 className="flex items-center justify-center w-full bg-blue-600 text-white py-3 rounded-lg font-bold hover:bg-blue-700 transition-colors"
-               >
-                 Open Sheet & Paste <ExternalLink className="w-4 h-4 ml-2" />
-               </a>
-             </div>
+                 <div className="pt-2">
+                   <a 
+                     href={settings.googleSheetUrl} 
+                     target="_blank" 
+                     rel="noreferrer"
+                     onClick={() => setTimeout(() => {
+                       setShowExportModal(false);
+                       setView(AppView.DASHBOARD);
+                     }, 500)}
+                     className="flex items-center justify-center w-full bg-blue-600 text-white py-3 rounded-lg font-bold hover:bg-blue-700 transition-colors"
+                   >
+                     Open Sheet & Paste <ExternalLink className="w-4 h-4 ml-2" />
+                   </a>
+                 </div>
              
-             <div className="text-center pt-2">
-               <button onClick={copyToClipboard} className="text-xs text-blue-600 hover:underline">
-                 Copy data again
-               </button>
-             </div>
+                 <div className="text-center pt-2">
+                   <button onClick={() => copyToClipboard()} className="text-xs text-blue-600 hover:underline">
+                     Copy data again
+                   </button>
+                 </div>
+               </div>
+             )}
+
+             {(() => {
+               const format = settings.exportFormat;
+               const columns = settings.exportColumns[format];
+               const unused = ALL_EXPORT_COLUMNS.filter(key => !columns.some(c => c.key === key));
+
+               return (
+                 <div className={`space-y-3 ${exportModalMode === 'paste' ? 'border-t pt-4' : ''}`}>
+                   <Select 
+                     label="Download As"
+                     value={format}
+                     onChange={(e) => setSettings({...settings, exportFormat: e.target.value as ExportFormat})}
+                   >
+                     {EXPORTERS.map(exporter => (
+                       <option key={exporter.id} value={exporter.id}>{exporter.label}</option>
+                     ))}
+                   </Select>
+
+                   <div>
+                     <p className="text-sm font-medium text-gray-700 mb-1">Columns (in file order)</p>
+                     <div className="max-h-56 overflow-y-auto space-y-1">
+                       {columns.map((col, index) => (
+                         <div key={col.key} className="flex items-center gap-2">
+                           <input 
+                             type="checkbox" 
+                             checked 
+                             onChange={() => updateExportColumns(format, columns.filter(c => c.key !== col.key))}
+                           />
+                           <span className="w-20 text-xs text-gray-500 truncate">{EXPORT_COLUMN_LABELS[col.key]}</span>
+                           <input 
+                             value={col.header}
+                             onChange={(e) => updateExportColumns(format, columns.map(c => c.key === col.key ? { ...c, header: e.target.value } : c))}
+                             className="flex-1 text-sm border rounded px-2 py-1 focus:border-blue-500 focus:outline-none"
+                             title="Header written to the file"
+                           />
+                           <button onClick={() => moveExportColumn(format, index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                             <ChevronUp className="w-4 h-4" />
+                           </button>
+                           <button onClick={() => moveExportColumn(format, index, 1)} disabled={index === columns.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                             <ChevronDown className="w-4 h-4" />
+                           </button>
+                         </div>
+                       ))}
+                       {unused.map(key => (
+                         <label key={key} className="flex items-center gap-2 text-sm text-gray-400">
+                           <input 
+                             type="checkbox" 
+                             checked={false}
+                             onChange={() => updateExportColumns(format, [...columns, { key, header: format === 'json' ? key : EXPORT_COLUMN_LABELS[key] }])}
+                           />
+                           {EXPORT_COLUMN_LABELS[key]}
+                         </label>
+                       ))}
+                     </div>
+                   </div>
+
+                   <Button variant="secondary" onClick={downloadExport} className="w-full">
+                     <Download className="w-4 h-4 mr-2" /> Download {getExporter(format).label}
+                   </Button>
+                 </div>
+               );
+             })()}
           </div>
         </Modal>
       </div>
@@ -826,7 +3630,13 @@ function doPost(e) {
           {view === AppView.DASHBOARD && renderDashboard()}
           {view === AppView.SCAN && renderScan()}
           {view === AppView.SETTINGS && renderSettings()}
-          {(view === AppView.REVIEW || view === AppView.HISTORY) && renderReview()}
+          {view === AppView.VENDOR_PROFILES && renderVendorProfiles()}
+          {view === AppView.CATALOG && renderCatalog()}
+          {view === AppView.ORDER_RULES && renderOrderRules()}
+          {view === AppView.VENDOR_CONTACTS && renderVendorContacts()}
+          {view === AppView.DESTINATIONS && renderDestinations()}
+          {view === AppView.HISTORY && renderHistory()}
+          {view === AppView.REVIEW && renderReview()}
         </main>
         
         {/* Toast Notification */}
@@ -846,8 +3656,16 @@ function doPost(e) {
           ref={uploadInputRef}
           className="hidden" 
           accept="image/*,application/pdf"
+          multiple
           onChange={handleFileUpload}
         />
+        <input 
+          type="file" 
+          ref={restoreInputRef}
+          className="hidden" 
+          accept="application/json,.json"
+          onChange={handleRestoreFile}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, Maximize2, Minimize2 } from 'lucide-react';
+import { BoundingBox } from '../types';
+import { getImage, StoredImage } from '../services/storageService';
+
+// Extra space around the row (0-1000 scale) so neighbouring rows give context
+const CROP_PADDING = 15;
+
+// Shows the part of the original page a row was read from, or the whole page with the row outlined
+export const RowCrop: React.FC<{ pageId: string; box?: BoundingBox }> = ({ pageId, box }) => {
+  const [image, setImage] = useState<StoredImage | null | undefined>(undefined);
+  const [showFullPage, setShowFullPage] = useState(!box);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImage(undefined);
+    getImage(pageId)
+      .then(result => !cancelled && setImage(result || null))
+      .catch(error => {
+        console.error("Failed to load page image", error);
+        if (!cancelled) setImage(null);
+      });
+    return () => { cancelled = true; };
+  }, [pageId]);
+
+  useEffect(() => {
+    if (!image || !box || showFullPage || !canvasRef.current) return;
+
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const [ymin, xmin, ymax, xmax] = box;
+      const top = Math.max(0, ymin - CROP_PADDING) / 1000 * img.height;
+      const bottom = Math.min(1000, ymax + CROP_PADDING) / 1000 * img.height;
+      const left = Math.max(0, xmin - CROP_PADDING) / 1000 * img.width;
+      const right = Math.min(1000, xmax + CROP_PADDING) / 1000 * img.width;
+
+      canvas.width = right - left;
+      canvas.height = bottom - top;
+      canvas.getContext('2d')?.drawImage(img, left, top, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    };
+    img.src = `data:${image.mimeType};base64,${image.base64Data}`;
+  }, [image, box, showFullPage]);
+
+  if (image === undefined) {
+    return (
+      <div className="flex items-center justify-center py-4 text-gray-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (image === null) {
+    return <p className="text-xs text-gray-400 text-center py-2">Original page image is no longer available.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {showFullPage || !box ? (
+        <div className="relative">
+          <img src={`data:${image.mimeType};base64,${image.base64Data}`} alt="Scanned page" className="w-full rounded border" />
+          {box && (
+            <div
+              className="absolute border-2 border-red-500 bg-red-500/10 rounded-sm pointer-events-none"
+              style={{
+                top: `${box[0] / 10}%`,
+                left: `${box[1] / 10}%`,
+                height: `${(box[2] - box[0]) / 10}%`,
+                width: `${(box[3] - box[1]) / 10}%`,
+              }}
+            />
+          )}
+        </div>
+      ) : (
+        <canvas ref={canvasRef} className="w-full h-auto rounded border bg-gray-50" />
+      )}
+      {box && (
+        <button
+          onClick={() => setShowFullPage(!showFullPage)}
+          className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+        >
+          {showFullPage ? <><Minimize2 className="w-3 h-3" /> Show row only</> : <><Maximize2 className="w-3 h-3" /> Show full page</>}
+        </button>
+      )}
+    </div>
+  );
+};
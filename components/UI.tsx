@@ -1,4 +1,4 @@
-import React, { InputHTMLAttributes, ButtonHTMLAttributes, useEffect } from 'react';
+import React, { InputHTMLAttributes, ButtonHTMLAttributes, SelectHTMLAttributes, TextareaHTMLAttributes, useEffect } from 'react';
 import { X } from 'lucide-react';
 
 export const Button: React.FC<ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'secondary' | 'danger' | 'ghost' }> = ({ 
@@ -32,6 +32,28 @@ export const Input: React.FC<InputHTMLAttributes<HTMLInputElement> & { label?: s
   </div>
 );
 
+export const TextArea: React.FC<TextareaHTMLAttributes<HTMLTextAreaElement> & { label?: string }> = ({ label, className = '', ...props }) => (
+  <div className="flex flex-col gap-1 w-full">
+    {label && <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{label}</label>}
+    <textarea 
+      className={`border border-gray-300 rounded-md px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-shadow ${className}`} 
+      {...props} 
+    />
+  </div>
+);
+
+export const Select: React.FC<SelectHTMLAttributes<HTMLSelectElement> & { label?: string }> = ({ label, className = '', children, ...props }) => (
+  <div className="flex flex-col gap-1 w-full">
+    {label && <label className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{label}</label>}
+    <select 
+      className={`border border-gray-300 rounded-md px-3 py-2 text-sm bg-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-shadow ${className}`} 
+      {...props} 
+    >
+      {children}
+    </select>
+  </div>
+);
+
 export const Switch: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label?: string }> = ({ checked, onChange, label }) => (
   <div className="flex items-center justify-between py-2">
     {label && <span className="text-sm font-medium text-gray-700">{label}</span>}
@@ -56,14 +78,15 @@ export const Card: React.FC<{ children: React.ReactNode; className?: string }> =
   </div>
 );
 
-export const Badge: React.FC<{ children: React.ReactNode; type?: 'success' | 'warning' | 'info' }> = ({ children, type = 'info' }) => {
+export const Badge: React.FC<{ children: React.ReactNode; type?: 'success' | 'warning' | 'info' | 'error'; title?: string }> = ({ children, type = 'info', title }) => {
   const styles = {
     success: "bg-green-100 text-green-800",
     warning: "bg-orange-100 text-orange-800",
-    info: "bg-blue-100 text-blue-800"
+    info: "bg-blue-100 text-blue-800",
+    error: "bg-red-100 text-red-800"
   };
   return (
-    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${styles[type]}`}>
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${styles[type]}`} title={title}>
       {children}
     </span>
   );
@@ -0,0 +1,73 @@
+import React from 'react';
+import { UsageSummary } from '../services/usageService';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Bars show daily usage per interval between counts; the dashed line is the average rate
+export const UsageChart: React.FC<{ usage: UsageSummary; suggestedPar?: number; daysOfCover: number }> = ({ usage, suggestedPar, daysOfCover }) => {
+  if (usage.intervals.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-6">
+        Not enough history yet. Usage appears after this item has been counted in two exports at least half a day apart.
+      </p>
+    );
+  }
+
+  const width = 320;
+  const height = 160;
+  const padding = 24;
+  const maxRate = Math.max(...usage.intervals.map(i => i.dailyRate), usage.dailyRate, 0.1);
+  const barWidth = (width - padding * 2) / usage.intervals.length;
+  const y = (rate: number) => height - padding - (rate / maxRate) * (height - padding * 2);
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+        <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="#e5e7eb" />
+        {usage.intervals.map((interval, i) => (
+          <g key={interval.to}>
+            <rect
+              x={padding + i * barWidth + 2}
+              y={y(interval.dailyRate)}
+              width={Math.max(1, barWidth - 4)}
+              height={height - padding - y(interval.dailyRate)}
+              className="fill-green-500"
+              rx={2}
+            >
+              <title>{`${formatDate(interval.from)} – ${formatDate(interval.to)}: used ${interval.consumed} over ${interval.days.toFixed(1)} days`}</title>
+            </rect>
+            <text x={padding + i * barWidth + barWidth / 2} y={height - 8} textAnchor="middle" className="fill-gray-400" fontSize={8}>
+              {formatDate(interval.to)}
+            </text>
+          </g>
+        ))}
+        <line
+          x1={padding}
+          y1={y(usage.dailyRate)}
+          x2={width - padding}
+          y2={y(usage.dailyRate)}
+          stroke="#2563eb"
+          strokeDasharray="4 3"
+        />
+        <text x={width - padding} y={y(usage.dailyRate) - 4} textAnchor="end" className="fill-blue-600" fontSize={9}>
+          avg {usage.dailyRate.toFixed(1)}/day
+        </text>
+      </svg>
+
+      <div className="grid grid-cols-3 gap-2 text-center text-xs">
+        <div className="bg-gray-50 rounded p-2">
+          <div className="font-bold text-gray-800">{usage.dailyRate.toFixed(1)}</div>
+          <div className="text-gray-500">per day</div>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <div className="font-bold text-gray-800">{usage.weeklyRate.toFixed(1)}</div>
+          <div className="text-gray-500">per week</div>
+        </div>
+        <div className="bg-blue-50 rounded p-2">
+          <div className="font-bold text-blue-800">{suggestedPar ?? '-'}</div>
+          <div className="text-blue-600">PAR for {daysOfCover}d</div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+// Local stand-in for the Apps Script web app and the Gemini API, so uploads and extraction
+// can be exercised without Google. No dependencies: run with `npm run mock-server`.
+//
+//   node mock-server/server.mjs [--port=8787] [--write-mode=append|replace|upsert]
+//                               [--fingerprint=<SCRIPT_FINGERPRINT>] [--fail=script:lock:2 ...]
+//
+// Script:  POST/GET any path ending in /exec (e.g. http://localhost:8787/exec)
+// Gemini:  point GEMINI_BASE_URL at http://localhost:8787
+// Faults:  GET /__mock/fail?target=script|gemini&mode=timeout|error|lock|http500&times=1
+//          GET /__mock/reset, GET /__mock/status
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync, appendFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = join(ROOT, 'data');
+const FIXTURES_DIR = join(ROOT, 'fixtures');
+
+const args = Object.fromEntries(
+  process.argv.slice(2)
+    .filter(arg => arg.startsWith('--'))
+    .map(arg => {
+      const [key, ...value] = arg.slice(2).split('=');
+      return [key, value.join('=')];
+    })
+);
+const failArgs = process.argv.slice(2).filter(arg => arg.startsWith('--fail=')).map(arg => arg.slice('--fail='.length));
+
+const PORT = Number(args.port || process.env.MOCK_PORT || 8787);
+const WRITE_MODE = args['write-mode'] || 'append';
+const TIMEOUT_MS = Number(args['timeout-ms'] || 30_000);
+const FINGERPRINT = args.fingerprint || ''; // Blank skips the app's settings check
+
+// Same as the generated script, so the app's version check sees the current release
+const SCRIPT_VERSION = Number(
+  readFileSync(join(ROOT, '..', 'services', 'scriptService.ts'), 'utf8').match(/SCRIPT_VERSION = (\d+)/)?.[1] || 0
+);
+
+const DEFAULT_COLUMNS = ['vendor', 'description', 'inStock', 'par', 'order', 'price', 'catalogId'];
+const LABELS = {
+  vendor: 'Vendor', description: 'Description', inStock: 'In Stock', par: 'PAR', order: 'Order', price: 'Price', catalogId: 'SKU',
+  unit: 'Unit', weight: 'Weight', pricedPer: 'Priced Per', lineTotal: 'Line Total',
+};
+const UPSERT_FIELDS = ['inStock', 'par', 'order', 'price', 'weight', 'lineTotal'];
+
+// ---------------------------------------------------------------------------
+// Fault injection
+
+const FAULT_MODES = ['timeout', 'error', 'lock', 'http500'];
+const faults = { script: null, gemini: null }; // { mode, remaining } where remaining -1 = every request
+
+const setFault = (target, mode, times) => {
+  if (!(target in faults)) throw new Error(`Unknown target "${target}" (script or gemini)`);
+  if (mode === 'none') {
+    faults[target] = null;
+    return;
+  }
+  if (!FAULT_MODES.includes(mode)) throw new Error(`Unknown mode "${mode}" (${FAULT_MODES.join(', ')}, none)`);
+  faults[target] = { mode, remaining: times === undefined || times === '' ? 1 : Number(times) };
+};
+
+// Uses up one injected failure, if any
+const takeFault = target => {
+  const fault = faults[target];
+  if (!fault) return null;
+  if (fault.remaining > 0) fault.remaining--;
+  if (fault.remaining === 0) faults[target] = null;
+  return fault.mode;
+};
+
+failArgs.forEach(spec => {
+  const [target, mode, times] = spec.split(':');
+  setFault(target, mode, times ?? '-1');
+});
+
+// ---------------------------------------------------------------------------
+// CSV "sheets": one file per spreadsheet/tab under mock-server/data
+
+const csvCell = value => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const parseCsv = text => {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(cell); cell = ''; }
+    else if (c === '\n') { row.push(cell); rows.push(row); row = []; cell = ''; }
+    else if (c !== '\r') cell += c;
+  }
+  if (cell || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows;
+};
+
+const safeName = name => String(name).replace(/[^a-zA-Z0-9_-]+/g, '_');
+
+const sheetPath = (spreadsheetId, sheetName) =>
+  join(DATA_DIR, `${spreadsheetId ? `${safeName(spreadsheetId)}__` : ''}${safeName(sheetName || 'Sheet1')}.csv`);
+
+const readSheet = path => existsSync(path) ? parseCsv(readFileSync(path, 'utf8')) : [];
+
+const writeSheet = (path, rows) => writeFileSync(path, rows.map(row => row.map(csvCell).join(',')).join('\n') + (rows.length ? '\n' : ''));
+
+const UPLOAD_LOG = join(DATA_DIR, '_uploads.csv');
+
+const isLogged = key => readSheet(UPLOAD_LOG).some(row => row[0] === key);
+
+const normalize = text => String(text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Mirrors rowKeys() in the generated script
+const rowKeys = (columns, row) => {
+  const keys = [];
+  const sku = columns.indexOf('catalogId');
+  if (sku >= 0 && row[sku]) keys.push(`sku:${normalize(row[sku])}`);
+  const vendor = columns.indexOf('vendor');
+  const description = columns.indexOf('description');
+  if (description >= 0 && row[description]) {
+    keys.push(`name:${normalize(vendor >= 0 ? row[vendor] : '')}::${normalize(row[description])}`);
+  }
+  return keys;
+};
+
+const upsert = (table, columns, items, rows) => {
+  const index = {};
+  table.forEach((row, i) => { if (i > 0) rowKeys(columns, row).forEach(key => { index[key] = i; }); });
+
+  return items.map((item, i) => {
+    const keys = item.keys?.length ? item.keys : rowKeys(columns, rows[i]);
+    const match = keys.map(key => index[key]).find(position => position !== undefined);
+    if (match === undefined) {
+      table.push(rows[i]);
+      keys.forEach(key => { index[key] = table.length - 1; });
+      return 'inserted';
+    }
+    rows[i].forEach((value, c) => {
+      if (c >= columns.length || UPSERT_FIELDS.includes(columns[c])) table[match][c] = value;
+    });
+    return 'updated';
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Apps Script stand-in
+
+const doPost = body => {
+  if (!body) return { ok: false, retryable: false, error: 'No data received.' };
+  let data;
+  try {
+    data = JSON.parse(body);
+  } catch (err) {
+    return { ok: false, retryable: false, error: `Invalid JSON: ${err.message}` };
+  }
+
+  const columns = data.columns?.length ? data.columns : DEFAULT_COLUMNS;
+  const key = data.idempotencyKey ? String(data.idempotencyKey) : '';
+  if (key && isLogged(key)) return { ok: true, status: 'duplicate', rows: 0 };
+
+  const path = sheetPath(data.spreadsheetId, data.sheetName);
+  const items = data.items || [];
+  const rows = items.map(item => columns.map(column => item[column] ?? ''));
+  let table = readSheet(path);
+
+  if (WRITE_MODE === 'replace') table = table.slice(0, 1);
+  if (table.length === 0) table.push(columns.map(column => LABELS[column] || column));
+
+  let outcomes;
+  if (WRITE_MODE === 'upsert') outcomes = upsert(table, columns, items, rows);
+  else table.push(...rows);
+
+  writeSheet(path, table);
+  if (key) appendFileSync(UPLOAD_LOG, [key, rows.length, new Date().toISOString()].map(csvCell).join(',') + '\n');
+
+  console.log(`[script] ${key || '(no key)'}: ${rows.length} row(s) → ${path}${outcomes ? ` (${outcomes.filter(o => o === 'updated').length} updated)` : ''}`);
+  return { ok: true, status: 'written', rows: rows.length, outcomes };
+};
+
+const doGet = params => {
+  if (params.get('action') === 'version') {
+    return { ok: true, version: SCRIPT_VERSION, fingerprint: FINGERPRINT };
+  }
+  const path = sheetPath(params.get('spreadsheetId'), params.get('sheetName'));
+  const columns = params.get('columns') ? params.get('columns').split(',') : DEFAULT_COLUMNS;
+  const items = readSheet(path).map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+  return { ok: true, columns, items };
+};
+
+// ---------------------------------------------------------------------------
+// Gemini stand-in: canned responses keyed like the app's recorded replays
+
+// Same key as hashImage() in services/replayService.ts: SHA-256 of the base64 text the app sends
+const hashImage = base64Data => createHash('sha256').update(base64Data).digest('hex');
+
+const loadFixture = name => {
+  const path = join(FIXTURES_DIR, `${name}.json`);
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : null;
+};
+
+const generateContent = body => {
+  const request = JSON.parse(body);
+  const parts = request.contents?.flatMap(content => content.parts || []) || [];
+  const image = parts.find(part => part.inlineData)?.inlineData;
+  const hash = image ? hashImage(image.data) : '';
+
+  let fixture = hash && loadFixture(hash);
+  if (!fixture) {
+    console.log(`[gemini] No fixture for image ${hash || '(none)'}; serving default.json. Save one as fixtures/${hash}.json.`);
+    fixture = loadFixture('default') || { vendorName: '', items: [] };
+  }
+
+  // detectVendor only asks for the printed header
+  const schema = request.generationConfig?.responseSchema || request.generationConfig?.responseJsonSchema;
+  const wantsHeader = !!schema?.properties?.headerText;
+  const result = wantsHeader ? { headerText: fixture.vendorName || '' } : fixture;
+
+  return {
+    candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(result) }] }, finishReason: 'STOP', index: 0 }],
+    modelVersion: 'mock',
+  };
+};
+
+// ---------------------------------------------------------------------------
+// HTTP
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+const send = (res, status, body, contentType = 'application/json') => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': contentType });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+// Returns true when the fault took over the response
+const applyFault = (target, res) => {
+  const mode = takeFault(target);
+  if (!mode) return false;
+  console.log(`[${target}] Injected failure: ${mode}`);
+
+  switch (mode) {
+    case 'timeout':
+      // Hold the request, then drop the connection so the client sees a network error
+      setTimeout(() => res.destroy(), TIMEOUT_MS);
+      break;
+    case 'http500':
+      send(res, 500, target === 'gemini' ? { error: { code: 500, message: 'Injected failure', status: 'INTERNAL' } } : 'Internal error', target === 'gemini' ? 'application/json' : 'text/plain');
+      break;
+    case 'lock':
+      if (target === 'gemini') send(res, 429, { error: { code: 429, message: 'Resource has been exhausted (injected).', status: 'RESOURCE_EXHAUSTED' } });
+      else send(res, 200, { ok: false, retryable: true, error: 'Could not obtain lock.' });
+      break;
+    case 'error':
+      // Scripts from before the JSON contract answered with plain text like this
+      if (target === 'gemini') send(res, 400, { error: { code: 400, message: 'Injected failure', status: 'INVALID_ARGUMENT' } });
+      else send(res, 200, 'Error: Injected failure', 'text/plain');
+      break;
+  }
+  return true;
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204, '');
+
+  try {
+    if (url.pathname === '/__mock/fail') {
+      setFault(url.searchParams.get('target'), url.searchParams.get('mode'), url.searchParams.get('times') ?? undefined);
+      return send(res, 200, { ok: true, faults });
+    }
+    if (url.pathname === '/__mock/reset') {
+      faults.script = null;
+      faults.gemini = null;
+      return send(res, 200, { ok: true, faults });
+    }
+    if (url.pathname === '/__mock/status') {
+      const sheets = existsSync(DATA_DIR) ? readdirSync(DATA_DIR).filter(name => name.endsWith('.csv')) : [];
+      return send(res, 200, { ok: true, writeMode: WRITE_MODE, scriptVersion: SCRIPT_VERSION, faults, sheets });
+    }
+
+    if (url.pathname.endsWith('/exec')) {
+      if (applyFault('script', res)) return;
+      if (req.method === 'POST') return send(res, 200, doPost(await readBody(req)));
+      return send(res, 200, doGet(url.searchParams));
+    }
+
+    if (url.pathname.endsWith(':generateContent') && req.method === 'POST') {
+      if (applyFault('gemini', res)) return;
+      return send(res, 200, generateContent(await readBody(req)));
+    }
+
+    send(res, 404, { error: { code: 404, message: `No mock for ${req.method} ${url.pathname}` } });
+  } catch (err) {
+    console.error(err);
+    send(res, 400, { ok: false, retryable: false, error: String(err.message || err) });
+  }
+});
+
+mkdirSync(DATA_DIR, { recursive: true });
+server.listen(PORT, () => {
+  console.log(`Mock server on http://localhost:${PORT}`);
+  console.log(`  Script URL:      http://localhost:${PORT}/exec  (write mode: ${WRITE_MODE}, v${SCRIPT_VERSION})`);
+  console.log(`  GEMINI_BASE_URL: http://localhost:${PORT}`);
+  console.log(`  Sheets:          ${DATA_DIR}`);
+  Object.entries(faults).forEach(([target, fault]) => fault && console.log(`  Failing ${target}: ${fault.mode}${fault.remaining > 0 ? ` ×${fault.remaining}` : ''}`));
+});
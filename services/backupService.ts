@@ -0,0 +1,217 @@
+import { CatalogItem, InvoiceRecord, ParMemory } from "../types";
+import { recordLabel } from "./recordService";
+import { LegacyRecord, migrateRecord, RECORD_SCHEMA_VERSION, StoredImage, StoredSettings } from "./storageService";
+
+// A backup is one JSON file. `version` is the archive layout; records also carry their own
+// schema version, so a backup from an older app is upgraded through the normal migrations.
+export const BACKUP_FORMAT = 'ordersheet-backup';
+export const BACKUP_VERSION = 1;
+
+// The outbox is left out: pending uploads belong to the device that queued them,
+// and restoring them elsewhere could send the same rows twice
+export type BackupSettings = Omit<StoredSettings, 'outbox'>;
+
+const BACKUP_SETTING_KEYS: (keyof BackupSettings)[] = ['settings', 'vendorProfiles', 'catalog', 'parMemory', 'orderRules', 'vendorContacts', 'poCounter'];
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  records: (InvoiceRecord & { schemaVersion: number })[];
+  settings: Partial<BackupSettings>;
+  images?: Record<string, StoredImage>; // Keyed by page id; only when images were included
+}
+
+export interface BackupContents {
+  records: InvoiceRecord[];
+  settings: Partial<BackupSettings>;
+  images?: Record<string, StoredImage>;
+}
+
+export const createBackup = (contents: BackupContents, date = new Date()): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: date.toISOString(),
+  records: contents.records.map(record => ({ ...record, schemaVersion: RECORD_SCHEMA_VERSION })),
+  settings: Object.fromEntries(BACKUP_SETTING_KEYS.filter(key => contents.settings[key] !== undefined).map(key => [key, contents.settings[key]])),
+  ...(contents.images ? { images: contents.images } : {}),
+});
+
+export const backupFileName = (date = new Date()) => `ordersheet-backup-${date.toISOString().slice(0, 10)}.json`;
+
+export const backupBlob = (archive: BackupArchive) =>
+  new Blob([JSON.stringify(archive)], { type: 'application/json' });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const LIST_SETTINGS: (keyof BackupSettings)[] = ['vendorProfiles', 'catalog', 'orderRules', 'vendorContacts'];
+
+// Checks the file before anything is touched. Throws with every problem found, so a
+// damaged backup is rejected as a whole rather than half-restored.
+export const parseBackup = (text: string): BackupContents & { createdAt: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't a backup (not valid JSON).");
+  }
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error("This file isn't an OrderSheet backup.");
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of the app (format ${data.version}). Update the app to restore it.`);
+  }
+
+  const problems: string[] = [];
+  if (!Array.isArray(data.records)) problems.push('records is missing');
+  const rawRecords = Array.isArray(data.records) ? data.records : [];
+  rawRecords.forEach((record, i) => {
+    if (!isObject(record) || typeof record.id !== 'string' || !record.id) problems.push(`record ${i + 1} has no id`);
+    else if (!Array.isArray(record.items)) problems.push(`record ${record.id} has no items`);
+    else if (typeof record.schemaVersion === 'number' && record.schemaVersion > RECORD_SCHEMA_VERSION) {
+      problems.push(`record ${record.id} is from a newer app version`);
+    }
+  });
+  const ids = rawRecords.filter(isObject).map(record => record.id);
+  const repeated = ids.filter((id, i) => ids.indexOf(id) !== i);
+  if (repeated.length > 0) problems.push(`record id(s) listed twice: ${Array.from(new Set(repeated)).join(', ')}`);
+
+  const settings = isObject(data.settings) ? data.settings : {};
+  if (!isObject(data.settings)) problems.push('settings is missing');
+  LIST_SETTINGS.forEach(key => {
+    if (settings[key] !== undefined && !Array.isArray(settings[key])) problems.push(`${key} isn't a list`);
+  });
+  if (settings.settings !== undefined && !isObject(settings.settings)) problems.push("settings.settings isn't an object");
+  if (settings.parMemory !== undefined && !isObject(settings.parMemory)) problems.push("parMemory isn't an object");
+  if (settings.poCounter !== undefined && typeof settings.poCounter !== 'number') problems.push("poCounter isn't a number");
+
+  const images = data.images;
+  if (images !== undefined && !isObject(images)) problems.push("images isn't an object");
+  if (isObject(images)) {
+    Object.entries(images).forEach(([id, image]) => {
+      if (!isObject(image) || typeof image.base64Data !== 'string' || typeof image.mimeType !== 'string') problems.push(`image ${id} is damaged`);
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`The backup is damaged: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+  }
+
+  return {
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    records: rawRecords.map(record => migrateRecord(record as LegacyRecord)),
+    settings: settings as Partial<BackupSettings>,
+    images: images as Record<string, StoredImage> | undefined,
+  };
+};
+
+// The same record id on both sides with different contents; the user picks which one to keep
+export interface RestoreConflict {
+  id: string;
+  label: string;
+  local: InvoiceRecord;
+  backup: InvoiceRecord;
+}
+
+export interface RestorePlan {
+  backup: BackupContents & { createdAt: string };
+  newRecords: number; // Only in the backup
+  identicalRecords: number; // Same id and contents on both sides
+  conflicts: RestoreConflict[];
+  catalogConflicts: string[]; // SKUs on both sides that differ; in a merge this device's entry is kept
+  images: number;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+export type RestoreChoice = 'backup' | 'local';
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const planRestore = (backup: BackupContents & { createdAt: string }, records: InvoiceRecord[], catalog: CatalogItem[]): RestorePlan => {
+  const local = new Map(records.map(record => [record.id, record]));
+  const conflicts: RestoreConflict[] = [];
+  let identicalRecords = 0;
+  backup.records.forEach(record => {
+    const existing = local.get(record.id);
+    if (!existing) return;
+    if (sameJson(existing, record)) identicalRecords++;
+    else conflicts.push({ id: record.id, label: recordLabel(record), local: existing, backup: record });
+  });
+
+  const localCatalog = new Map(catalog.map(item => [item.id, item]));
+  const catalogConflicts = (backup.settings.catalog || [])
+    .filter(item => localCatalog.has(item.id) && !sameJson(localCatalog.get(item.id), item))
+    .map(item => item.id);
+
+  return {
+    backup,
+    newRecords: backup.records.length - identicalRecords - conflicts.length,
+    identicalRecords,
+    conflicts,
+    catalogConflicts,
+    images: Object.keys(backup.images || {}).length,
+  };
+};
+
+// Entries from both lists by id; this device's entry wins where both have one
+const mergeById = <T extends { id: string }>(local: T[] = [], backup: T[] = []) => {
+  const ids = new Set(local.map(entry => entry.id));
+  return [...local, ...backup.filter(entry => !ids.has(entry.id))];
+};
+
+// The most recently confirmed PAR wins
+const mergeParMemory = (local: ParMemory = {}, backup: ParMemory = {}): ParMemory => {
+  const merged = { ...local };
+  Object.entries(backup).forEach(([key, entry]) => {
+    if (!merged[key] || entry.updatedAt > merged[key].updatedAt) merged[key] = entry;
+  });
+  return merged;
+};
+
+export interface RestoreResult {
+  records: InvoiceRecord[];
+  settings: Partial<BackupSettings>;
+  images: Record<string, StoredImage>;
+  // Replace only: the stored images to keep, the rest are removed. A backup with images brings
+  // all of its own, so none are kept; one without keeps what the restored records still show.
+  keepImageIds?: string[];
+}
+
+// Replace: the backup becomes the app's data. Merge: records and lists are combined, conflicting
+// records follow the user's choices, and this device's app settings (script URL and so on) stay.
+export const applyRestore = (
+  plan: RestorePlan,
+  mode: RestoreMode,
+  choices: Record<string, RestoreChoice>,
+  current: { records: InvoiceRecord[]; settings: Partial<BackupSettings> }
+): RestoreResult => {
+  const { backup } = plan;
+  if (mode === 'replace') {
+    const keepImageIds = backup.images ? [] : backup.records.flatMap(record => (record.pages || []).map(page => page.id));
+    return { records: backup.records, settings: backup.settings, images: backup.images || {}, keepImageIds };
+  }
+
+  const backupById = new Map(backup.records.map(record => [record.id, record]));
+  const localIds = new Set(current.records.map(record => record.id));
+  const records = [
+    ...current.records.map(record => choices[record.id] === 'backup' && backupById.has(record.id) ? backupById.get(record.id)! : record),
+    ...backup.records.filter(record => !localIds.has(record.id)),
+  ].sort((a, b) => b.date.localeCompare(a.date));
+
+  const local = current.settings;
+  return {
+    records,
+    settings: {
+      settings: local.settings || backup.settings.settings,
+      vendorProfiles: mergeById(local.vendorProfiles, backup.settings.vendorProfiles),
+      catalog: mergeById(local.catalog, backup.settings.catalog),
+      parMemory: mergeParMemory(local.parMemory, backup.settings.parMemory),
+      orderRules: mergeById(local.orderRules, backup.settings.orderRules),
+      vendorContacts: mergeById(local.vendorContacts, backup.settings.vendorContacts),
+      // Never reissue a PO number either side has used
+      poCounter: Math.max(local.poCounter || 0, backup.settings.poCounter || 0),
+    },
+    images: backup.images || {},
+  };
+};
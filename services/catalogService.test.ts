@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CatalogItem } from '../types';
+import { matchCatalogItem, suggestCatalogItem, wordsDisagree } from './catalogService';
+
+const catalogItem = (id: string, name: string, aliases: string[] = []): CatalogItem => ({
+  id, name, vendor: 'Sysco', aliases, unit: 'each', defaultPar: 0,
+});
+
+describe('matchCatalogItem', () => {
+  it.each([
+    ['Red Bell Pepper', 'Green Bell Pepper'],
+    ['Red Cabbage', 'Green Cabbage'],
+    ['Milk', 'Silk'],
+  ])('does not match %s to %s', (description, name) => {
+    const catalog = [catalogItem('SKU-00001', name)];
+    expect(matchCatalogItem(description, 'Sysco', catalog)).toBeUndefined();
+    expect(matchCatalogItem(name, 'Sysco', [catalogItem('SKU-00001', description)])).toBeUndefined();
+  });
+
+  it('picks the right variant when both are in the catalog', () => {
+    const catalog = [catalogItem('SKU-00001', 'Green Bell Pepper'), catalogItem('SKU-00002', 'Red Bell Pepper')];
+    expect(matchCatalogItem('Red Bell Pepper', 'Sysco', catalog)?.item.id).toBe('SKU-00002');
+  });
+
+  it('still matches typos and extra words', () => {
+    const catalog = [catalogItem('SKU-00001', 'Cilantro'), catalogItem('SKU-00002', 'Bok Choy')];
+    expect(matchCatalogItem('Cilantor', 'Sysco', catalog)?.item.id).toBe('SKU-00001');
+    expect(matchCatalogItem('Bok choy baby', 'Sysco', catalog)?.item.id).toBe('SKU-00002');
+  });
+
+  it('matches an alias', () => {
+    const catalog = [catalogItem('SKU-00001', 'Romaine Hearts', ['Romaine 3pk'])];
+    expect(matchCatalogItem('romaine 3pk', 'Sysco', catalog)?.item.id).toBe('SKU-00001');
+  });
+
+  it('skips items from another vendor', () => {
+    const catalog = [catalogItem('SKU-00001', 'Cilantro')];
+    expect(matchCatalogItem('Cilantro', 'US Foods', catalog)).toBeUndefined();
+    expect(matchCatalogItem('Cilantro', '', catalog)?.item.id).toBe('SKU-00001');
+  });
+});
+
+describe('suggestCatalogItem', () => {
+  it('offers a near miss for confirmation', () => {
+    const catalog = [catalogItem('SKU-00001', 'Green Cabbage')];
+    expect(suggestCatalogItem('Red Cabbage', 'Sysco', catalog)?.item.id).toBe('SKU-00001');
+  });
+
+  it('offers nothing for an unrelated description', () => {
+    const catalog = [catalogItem('SKU-00001', 'Green Cabbage')];
+    expect(suggestCatalogItem('Heavy Cream', 'Sysco', catalog)).toBeUndefined();
+  });
+});
+
+describe('wordsDisagree', () => {
+  it('is true only when both sides have a word the other lacks', () => {
+    expect(wordsDisagree('Red Cabbage', 'Green Cabbage')).toBe(true);
+    expect(wordsDisagree('Bok choy baby', 'Bok choy')).toBe(false);
+    expect(wordsDisagree('Parsely Italian', 'Parsley Italian')).toBe(false);
+    expect(wordsDisagree('Eggs 15dz', 'Eggs 30dz')).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import { CatalogItem, InvoiceItem } from "../types";
+
+// Minimum similarity for a scanned description to be matched automatically
+export const CATALOG_MATCH_THRESHOLD = 0.8;
+
+// Below the match threshold (or with a word that differs), the best candidate is only offered
+// in Review for a person to confirm
+export const CATALOG_SUGGEST_THRESHOLD = 0.6;
+
+export interface CatalogMatch {
+  item: CatalogItem;
+  score: number;
+}
+
+export const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Edit distance where swapping two neighbouring letters counts as one edit ("Cilantor")
+const editDistance = (a: string, b: string) => {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 0..1. Takes the better of character edit distance (catches typos like "Cilantor")
+// and token overlap (catches extra words like "Bok choy baby").
+export const similarity = (a: string, b: string) => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const editScore = 1 - editDistance(left, right) / Math.max(left.length, right.length);
+
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const shared = [...leftTokens].filter(t => rightTokens.has(t)).length;
+  const tokenScore = (2 * shared) / (leftTokens.size + rightTokens.size);
+
+  return Math.max(editScore, tokenScore);
+};
+
+// A misspelling of a word, not another word: short words must match exactly ("milk" vs "silk")
+const sameWord = (a: string, b: string) => {
+  if (a === b) return true;
+  const shorter = Math.min(a.length, b.length);
+  if (shorter < 5 || /\d/.test(a + b)) return false;
+  return editDistance(a, b) <= (shorter >= 8 ? 2 : 1);
+};
+
+// True when each side has a word the other lacks ("red cabbage" vs "green cabbage"): that's a
+// different product, however similar the rest. Extra words on one side only are fine.
+export const wordsDisagree = (a: string, b: string) => {
+  const left = normalizeText(a).split(' ').filter(Boolean);
+  const right = normalizeText(b).split(' ').filter(Boolean);
+  const unmatched = (words: string[], others: string[]) => words.some(word => !others.some(other => sameWord(word, other)));
+  return unmatched(left, right) && unmatched(right, left);
+};
+
+const scoreCatalogItem = (description: string, item: CatalogItem) =>
+  Math.max(...[item.name, ...item.aliases].map(name => similarity(description, name)));
+
+// Safe to apply without asking: some name of the item is close enough and no word contradicts it
+const isConfidentMatch = (description: string, item: CatalogItem) =>
+  [item.name, ...item.aliases].some(name => similarity(description, name) >= CATALOG_MATCH_THRESHOLD && !wordsDisagree(description, name));
+
+// Candidates ranked best first. Items from another vendor are skipped when both vendors are known.
+export const rankCatalogMatches = (description: string, vendor: string, catalog: CatalogItem[]): CatalogMatch[] => {
+  const vendorKey = normalizeText(vendor);
+  return catalog
+    .filter(item => !vendorKey || !item.vendor || normalizeText(item.vendor) === vendorKey)
+    .map(item => ({ item, score: scoreCatalogItem(description, item) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+export const matchCatalogItem = (description: string, vendor: string, catalog: CatalogItem[]): CatalogMatch | undefined =>
+  rankCatalogMatches(description, vendor, catalog).find(match => isConfidentMatch(description, match.item));
+
+// The best candidate for a row that wasn't matched automatically, for a person to confirm
+export const suggestCatalogItem = (description: string, vendor: string, catalog: CatalogItem[]): CatalogMatch | undefined => {
+  const [best] = rankCatalogMatches(description, vendor, catalog);
+  return best && best.score >= CATALOG_SUGGEST_THRESHOLD ? best : undefined;
+};
+
+export const nextCatalogId = (catalog: CatalogItem[]) => {
+  const highest = catalog.reduce((max, item) => Math.max(max, Number(item.id.replace(/\D/g, '')) || 0), 0);
+  return `SKU-${String(highest + 1).padStart(5, '0')}`;
+};
+
+export const createCatalogItem = (item: InvoiceItem, catalog: CatalogItem[]): CatalogItem => ({
+  id: nextCatalogId(catalog),
+  name: item.description.trim(),
+  vendor: item.vendor,
+  aliases: [],
+  unit: item.unit || '',
+  defaultPar: item.par,
+  priceBasis: item.priceBasis,
+});
+
+// Remembers the scanned spelling so the next scan matches without help
+export const addCatalogAlias = (catalogItem: CatalogItem, description: string): CatalogItem => {
+  const alias = description.trim();
+  const known = [catalogItem.name, ...catalogItem.aliases].some(name => normalizeText(name) === normalizeText(alias));
+  return known || !alias ? catalogItem : { ...catalogItem, aliases: [...catalogItem.aliases, alias] };
+};
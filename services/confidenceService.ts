@@ -0,0 +1,45 @@
+import { ConfidenceField, FieldConfidence, InvoiceItem } from "../types";
+
+// Cells scored below this are highlighted for a second look
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+// Review screen order, left to right
+export const CONFIDENCE_FIELDS: ConfidenceField[] = ['description', 'inStock', 'par', 'order', 'price'];
+
+export interface UncertainCell {
+  itemId: string;
+  field: ConfidenceField;
+}
+
+export const normalizeConfidence = (raw?: FieldConfidence): FieldConfidence | undefined => {
+  if (!raw) return undefined;
+
+  const result: FieldConfidence = {};
+  CONFIDENCE_FIELDS.forEach(field => {
+    const value = Number(raw[field]);
+    if (raw[field] !== undefined && !isNaN(value)) {
+      result[field] = Math.min(1, Math.max(0, value));
+    }
+  });
+  return result;
+};
+
+export const isLowConfidence = (item: InvoiceItem, field: ConfidenceField) => {
+  const score = item.confidence?.[field];
+  return score !== undefined && score < LOW_CONFIDENCE_THRESHOLD;
+};
+
+export const needsReview = (item: InvoiceItem, field: ConfidenceField) =>
+  isLowConfidence(item, field) && !item.reviewedFields?.includes(field);
+
+export const markFieldReviewed = (item: InvoiceItem, field: ConfidenceField): InvoiceItem => {
+  if (item.reviewedFields?.includes(field)) return item;
+  return { ...item, reviewedFields: [...(item.reviewedFields || []), field] };
+};
+
+export const getUncertainCells = (items: InvoiceItem[]): UncertainCell[] =>
+  items.flatMap(item =>
+    CONFIDENCE_FIELDS.filter(field => needsReview(item, field)).map(field => ({ itemId: item.id, field }))
+  );
+
+export const getCellElementId = (itemId: string, field: ConfidenceField) => `cell-${itemId}-${field}`;
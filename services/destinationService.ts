@@ -0,0 +1,81 @@
+import { AppSettings, DestinationKind, ExportColumn, ExportDestination, InvoiceItem, RoutingRule, UploadTarget } from "../types";
+import { normalizeText } from "./catalogService";
+import { createWebhookConfig } from "./webhookService";
+
+// The main sheet is the original single destination, configured by settings.scriptUrl
+export const MAIN_DESTINATION_ID = 'main';
+
+// The layout the script has always written: Vendor | Description | In Stock | PAR | Order | Price | SKU
+export const STANDARD_SHEET_COLUMNS: ExportColumn[] = ['vendor', 'description', 'inStock', 'par', 'order', 'price', 'catalogId'];
+
+export const createDestination = (kind: DestinationKind = 'sheet'): ExportDestination => ({
+  id: `dest-${Date.now()}`,
+  name: '',
+  kind,
+  scriptUrl: '',
+  sheetUrl: '',
+  tab: '',
+  columns: [...STANDARD_SHEET_COLUMNS],
+  webhook: kind === 'webhook' ? createWebhookConfig() : undefined,
+});
+
+export const isWebhookDestination = (destination: ExportDestination) =>
+  destination.kind === 'webhook' && !!destination.webhook;
+
+export const createRoutingRule = (destinationId: string): RoutingRule => ({
+  id: `route-${Date.now()}`,
+  vendor: '',
+  destinationId,
+});
+
+export const getDestinations = (settings: AppSettings): ExportDestination[] => [
+  { id: MAIN_DESTINATION_ID, name: 'Main Sheet', scriptUrl: settings.scriptUrl, sheetUrl: '', tab: settings.script.tab, columns: settings.script.columns },
+  ...settings.destinations,
+];
+
+export const spreadsheetIdFromUrl = (url: string) => url.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/)?.[1];
+
+export const toUploadTarget = (destination: ExportDestination, settings: AppSettings): UploadTarget => ({
+  scriptUrl: destination.scriptUrl || settings.scriptUrl,
+  spreadsheetId: spreadsheetIdFromUrl(destination.sheetUrl),
+  sheetName: destination.tab.trim() || undefined,
+  columns: destination.columns,
+});
+
+export const isDestinationConfigured = (destination: ExportDestination, settings: AppSettings) =>
+  isWebhookDestination(destination) ? !!destination.webhook.url.trim() : !!toUploadTarget(destination, settings).scriptUrl;
+
+export const hasUploadDestination = (settings: AppSettings) =>
+  getDestinations(settings).some(destination => isDestinationConfigured(destination, settings));
+
+// Longest matching vendor fragment wins, as with vendor layouts. Rules pointing at a
+// deleted destination are ignored.
+export const routeVendor = (vendor: string, settings: AppSettings): string => {
+  const name = normalizeText(vendor);
+  const known = new Set(settings.destinations.map(d => d.id));
+
+  let best: { destinationId: string; length: number } | undefined;
+  settings.routingRules.forEach(rule => {
+    const fragment = normalizeText(rule.vendor);
+    if (fragment && known.has(rule.destinationId) && name.includes(fragment) && (!best || fragment.length > best.length)) {
+      best = { destinationId: rule.destinationId, length: fragment.length };
+    }
+  });
+  return best?.destinationId || MAIN_DESTINATION_ID;
+};
+
+// Items grouped per destination, in destination order, skipping destinations with nothing routed to them
+export const routeItems = (items: InvoiceItem[], settings: AppSettings) => {
+  const groups = new Map<string, InvoiceItem[]>();
+  items.forEach(item => {
+    const id = routeVendor(item.vendor, settings);
+    groups.set(id, [...(groups.get(id) || []), item]);
+  });
+  return getDestinations(settings)
+    .filter(destination => groups.has(destination.id))
+    .map(destination => ({ destination, items: groups.get(destination.id)! }));
+};
+
+// Keeps the main sheet's key unchanged so uploads queued before routing existed still deduplicate
+export const destinationKey = (baseKey: string, destinationId: string) =>
+  destinationId === MAIN_DESTINATION_ID ? baseKey : `${baseKey}@${destinationId}`;
@@ -0,0 +1,128 @@
+import { InvoiceItem, ScannedField, ScannedValues } from "../types";
+import { normalizeUnit } from "./unitService";
+
+// ---------------------------------------------------------------------------
+// Scanned values: what extraction first read for each row
+
+// Review screen order, left to right
+export const SCANNED_FIELDS: ScannedField[] = ['vendor', 'description', 'inStock', 'par', 'order', 'price', 'unit', 'weight'];
+
+export const SCANNED_FIELD_LABELS: Record<ScannedField, string> = {
+  vendor: 'Vendor',
+  description: 'Desc.',
+  inStock: 'Stk',
+  par: 'Par',
+  order: 'Ord',
+  price: 'Price',
+  unit: 'Unit',
+  weight: 'Wt',
+};
+
+const NUMERIC_FIELDS: ScannedField[] = ['inStock', 'par', 'order', 'price', 'weight'];
+
+// Called once when a row is extracted; later edits never touch it
+export const withScannedValues = (item: InvoiceItem): InvoiceItem => ({
+  ...item,
+  scanned: {
+    ...Object.fromEntries(SCANNED_FIELDS.map(field => [field, item[field]])),
+    rawNeed: item.rawNeed,
+    parSource: item.parSource,
+  },
+});
+
+// Inputs store what was typed, so "5" and 5 (or a blank and no value) count as the same
+const comparable = (field: ScannedField, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '';
+  if (NUMERIC_FIELDS.includes(field)) return Number(value);
+  return field === 'unit' ? normalizeUnit(String(value)) : String(value).trim();
+};
+
+// Rows added by hand have no scanned values, so nothing on them counts as changed
+export const isFieldChanged = (item: InvoiceItem, field: ScannedField) =>
+  item.scanned !== undefined && comparable(field, item[field]) !== comparable(field, item.scanned[field]);
+
+export const changedFields = (item: InvoiceItem) => SCANNED_FIELDS.filter(field => isFieldChanged(item, field));
+
+// Puts one cell back as scanned. Order and PAR bring back what came with them
+// (the need before rounding, where the PAR came from); other cells are left as they are.
+export const revertField = (item: InvoiceItem, field: ScannedField): InvoiceItem => {
+  const scanned: ScannedValues = item.scanned || {};
+  const reverted: InvoiceItem = { ...item, [field]: scanned[field] };
+  if (field === 'order') reverted.rawNeed = scanned.rawNeed;
+  if (field === 'par') reverted.parSource = scanned.parSource;
+  return reverted;
+};
+
+// ---------------------------------------------------------------------------
+// Undo and redo for Review edits
+
+// Commands name the rows they touch by id, so undoing one still works after other
+// rows were added or merged in between. A revert is an update that isn't folded into typing.
+export type EditCommand =
+  | { type: 'update' | 'revert'; label: string; field: keyof InvoiceItem; before: InvoiceItem; after: InvoiceItem }
+  | { type: 'add'; label: string; item: InvoiceItem; index: number }
+  | { type: 'delete'; label: string; item: InvoiceItem; index: number }
+  | { type: 'reorder'; label: string; before: string[]; after: string[] };
+
+export interface EditHistory {
+  undo: EditCommand[]; // Oldest first
+  redo: EditCommand[]; // Most recently undone last
+}
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { undo: [], redo: [] };
+
+// Older steps beyond this are dropped
+export const MAX_UNDO_STEPS = 100;
+
+// Typing into a cell sends an update per keystroke; back-to-back edits of the same cell
+// are one step, so a single undo takes the whole cell back. A revert stays its own step.
+export const recordEdit = (history: EditHistory, command: EditCommand): EditHistory => {
+  const last = history.undo[history.undo.length - 1];
+  if (
+    command.type === 'update' && last?.type === 'update' &&
+    last.field === command.field && last.after.id === command.after.id
+  ) {
+    return { undo: [...history.undo.slice(0, -1), { ...command, before: last.before }], redo: [] };
+  }
+  return { undo: [...history.undo, command].slice(-MAX_UNDO_STEPS), redo: [] };
+};
+
+const insertAt = (items: InvoiceItem[], item: InvoiceItem, index: number) =>
+  items.some(i => i.id === item.id) ? items : [...items.slice(0, index), item, ...items.slice(index)];
+
+// Rows the order doesn't know (added since) keep their relative order at the end
+const reorder = (items: InvoiceItem[], ids: string[]) => {
+  const position = new Map(ids.map((id, i) => [id, i]));
+  return [...items].sort((a, b) => (position.get(a.id) ?? ids.length) - (position.get(b.id) ?? ids.length));
+};
+
+// Only the fields the command changed are written, onto the row as it is now, so changes made
+// outside the edit history (sync, order rules, catalog links) survive an undo. Marking a cell
+// reviewed isn't undone either: it was looked at either way.
+const applyFields = (items: InvoiceItem[], from: InvoiceItem, to: InvoiceItem) => {
+  const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]) as Set<keyof InvoiceItem>)
+    .filter(key => key !== 'reviewedFields' && from[key] !== to[key]);
+  return items.map(item => item.id === to.id
+    ? { ...item, ...Object.fromEntries(keys.map(key => [key, to[key]])) }
+    : item);
+};
+
+export const undoCommand = (items: InvoiceItem[], command: EditCommand): InvoiceItem[] => {
+  switch (command.type) {
+    case 'update':
+    case 'revert': return applyFields(items, command.after, command.before);
+    case 'add': return items.filter(i => i.id !== command.item.id);
+    case 'delete': return insertAt(items, command.item, command.index);
+    case 'reorder': return reorder(items, command.before);
+  }
+};
+
+export const redoCommand = (items: InvoiceItem[], command: EditCommand): InvoiceItem[] => {
+  switch (command.type) {
+    case 'update':
+    case 'revert': return applyFields(items, command.before, command.after);
+    case 'add': return insertAt(items, command.item, command.index);
+    case 'delete': return items.filter(i => i.id !== command.item.id);
+    case 'reorder': return reorder(items, command.after);
+  }
+};
@@ -0,0 +1,121 @@
+import { CatalogItem, ExportColumn, ExportColumnSetting, Exporter, ExportFormat, ExportRow, InvoiceItem } from "../types";
+import { createTablePdf } from "./pdfService";
+import { formatWeight, lineTotal, normalizeUnit, pricedPer } from "./unitService";
+import { createXlsx } from "./xlsxService";
+
+export const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  vendor: 'Vendor',
+  description: 'Description',
+  inStock: 'In Stock',
+  par: 'PAR',
+  order: 'Order',
+  price: 'Price',
+  catalogId: 'SKU',
+  unit: 'Unit',
+  weight: 'Weight',
+  pricedPer: 'Priced Per',
+  lineTotal: 'Line Total',
+};
+
+export const ALL_EXPORT_COLUMNS: ExportColumn[] = ['vendor', 'description', 'inStock', 'par', 'order', 'price', 'catalogId', 'unit', 'weight', 'pricedPer', 'lineTotal'];
+
+const NUMERIC_COLUMNS: ExportColumn[] = ['inStock', 'par', 'order', 'price', 'lineTotal'];
+
+// Sorted by description for consistency. The catalog supplies item-specific unit conversions for line totals.
+export const toExportRows = (items: InvoiceItem[], catalog: CatalogItem[] = []): ExportRow[] =>
+  [...items]
+    .sort((a, b) => a.description.toLowerCase().localeCompare(b.description.toLowerCase()))
+    .map(i => ({
+      inStock: Number(i.inStock),
+      par: Number(i.par),
+      order: Number(i.order),
+      description: i.description,
+      vendor: i.vendor,
+      price: Number(i.price),
+      catalogId: i.catalogId || '',
+      unit: normalizeUnit(i.unit),
+      weight: formatWeight(i),
+      pricedPer: pricedPer(i),
+      lineTotal: lineTotal(i, catalog) ?? '',
+    }));
+
+export const defaultExportColumns = (): ExportColumnSetting[] =>
+  ALL_EXPORT_COLUMNS.map(key => ({ key, header: EXPORT_COLUMN_LABELS[key] }));
+
+export const DEFAULT_EXPORT_COLUMNS: Record<ExportFormat, ExportColumnSetting[]> = {
+  csv: defaultExportColumns(),
+  xlsx: defaultExportColumns(),
+  json: ALL_EXPORT_COLUMNS.map(key => ({ key, header: key })),
+  pdf: defaultExportColumns(),
+};
+
+const toTable = (rows: ExportRow[], columns: ExportColumnSetting[]) =>
+  rows.map(row => columns.map(col => row[col.key]));
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvExporter: Exporter = {
+  id: 'csv',
+  label: 'CSV',
+  extension: 'csv',
+  export: (rows, columns) => {
+    const lines = [columns.map(c => c.header), ...toTable(rows, columns)].map(line => line.map(csvField).join(','));
+    return new Blob([lines.join('\r\n') + '\r\n'], { type: 'text/csv;charset=utf-8' });
+  },
+};
+
+const xlsxExporter: Exporter = {
+  id: 'xlsx',
+  label: 'Excel (XLSX)',
+  extension: 'xlsx',
+  export: (rows, columns) => createXlsx([columns.map(c => c.header), ...toTable(rows, columns)], 'Order Sheet'),
+};
+
+// Headers become the object keys, so a column renamed "qty" is exported as { "qty": 4 }
+const jsonExporter: Exporter = {
+  id: 'json',
+  label: 'JSON',
+  extension: 'json',
+  export: (rows, columns) => {
+    const objects = rows.map(row => Object.fromEntries(columns.map(col => [col.header || col.key, row[col.key]])));
+    return new Blob([JSON.stringify(objects, null, 2)], { type: 'application/json' });
+  },
+};
+
+const pdfExporter: Exporter = {
+  id: 'pdf',
+  label: 'PDF (Print)',
+  extension: 'pdf',
+  export: (rows, columns) => createTablePdf({
+    title: 'Order Sheet',
+    headerLines: [`Exported ${new Date().toLocaleString()}`, `${rows.length} item(s)`],
+    columns: columns.map(col => ({
+      header: col.header,
+      align: NUMERIC_COLUMNS.includes(col.key) ? 'right' : 'left',
+      width: col.key === 'description' ? 3 : col.key === 'vendor' ? 2 : 1,
+    })),
+    rows: toTable(rows, columns).map(row => row.map(String)),
+  }),
+};
+
+export const EXPORTERS: Exporter[] = [csvExporter, xlsxExporter, jsonExporter, pdfExporter];
+
+export const getExporter = (id: ExportFormat) => EXPORTERS.find(e => e.id === id) || csvExporter;
+
+export const exportFileName = (exporter: Exporter, date = new Date()) =>
+  `order-sheet-${date.toISOString().slice(0, 10)}.${exporter.extension}`;
+
+// Generated in the browser and handed to the user as a download; nothing is uploaded
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,166 @@
+import { BoundingBox, CatalogItem, ExtractionProvider, ExtractionProviderId, InvoiceItem, OrderRule, ParMemory, ParSource, RawExtraction, RawExtractionItem, VendorProfile } from "../types";
+import { matchCatalogItem } from "./catalogService";
+import { normalizeConfidence } from "./confidenceService";
+import { withScannedValues } from "./editHistoryService";
+import { geminiProvider } from "./geminiService";
+import { ocrProvider } from "./ocrService";
+import { resolveOrder } from "./orderRulesService";
+import { lookupPar } from "./parMemoryService";
+import { hashImage, replayProvider, saveReplay } from "./replayService";
+import { normalizeUnit, withCatalogUnits } from "./unitService";
+import { DEFAULT_VENDOR_PROFILE, matchVendorProfile } from "./vendorProfileService";
+
+// Accepts [ymin, xmin, ymax, xmax] on the 0-1000 scale; anything malformed is dropped
+const normalizeRowBox = (box?: number[]): BoundingBox | undefined => {
+  if (!Array.isArray(box) || box.length !== 4) return undefined;
+  const [ymin, xmin, ymax, xmax] = box.map(v => Math.min(1000, Math.max(0, Number(v) || 0)));
+  return ymax > ymin && xmax > xmin ? [ymin, xmin, ymax, xmax] : undefined;
+};
+
+export const EXTRACTION_PROVIDERS: ExtractionProvider[] = [geminiProvider, replayProvider, ocrProvider];
+
+export const getExtractionProvider = (id: ExtractionProviderId): ExtractionProvider =>
+  EXTRACTION_PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+// What the app already knows about items, applied while mapping
+export interface MappingContext {
+  catalog?: CatalogItem[];
+  parMemory?: ParMemory;
+  orderRules?: OrderRule[];
+}
+
+// Shared by every provider: turns a raw response into the app's item structure
+export const mapRawExtraction = (
+  rawData: RawExtraction | RawExtractionItem[],
+  profile: VendorProfile = DEFAULT_VENDOR_PROFILE,
+  context: MappingContext = {}
+): InvoiceItem[] => {
+  // Handle both object return (new schema) and array return (fallback)
+  const itemsList = Array.isArray(rawData) ? rawData : (rawData.items || []);
+  const headerName = !Array.isArray(rawData) && rawData.vendorName ? rawData.vendorName.trim() : "";
+  // A matched profile names the vendor consistently, whatever the header OCR'd as
+  const vendorName = profile.name || headerName;
+
+  // Map to internal structure
+  return itemsList.map((item: RawExtractionItem) => {
+    const inStock = Number(item.inStock ?? item.column1_inStock) || 0;
+    const extractedOrder = Number(item.order ?? item.column3_order) || 0;
+    let par = Number(item.par ?? item.column2_par) || 0;
+    const price = profile.priceHandling === 'none' ? 0 : Number(item.price ?? item.column4_price) || 0;
+    const caseSize = Number(item.caseSize) || undefined;
+    const weight = profile.weightHandling === 'capture' ? Number(item.weight) || undefined : undefined;
+    const weightUnit = weight && item.weightUnit ? normalizeUnit(item.weightUnit) : undefined;
+    const unit = item.unit ? normalizeUnit(item.unit) : undefined;
+
+    // Match before resolving PAR, so remembered PARs can be found by catalog id
+    const scannedDescription = item.description || "Unknown Item";
+    const catalogMatch = context.catalog ? matchCatalogItem(scannedDescription, vendorName, context.catalog) : undefined;
+    const finalDescription = catalogMatch ? catalogMatch.item.name : scannedDescription;
+    const catalogId = catalogMatch?.item.id;
+
+    // Logic:
+    // 1. If PAR is written on paper, use it.
+    // 2. If PAR is missing/zero, use the PAR last confirmed for this vendor + item.
+    // 3. Otherwise fall back to the catalog's default PAR.
+    // 4. If PAR is still missing, but we have Stock and Order: Infer PAR = Stock + Order.
+    // 5. If PAR and Order are missing: Default PAR = Stock + buffer.
+    let parSource: ParSource = 'sheet';
+    const rememberedPar = context.parMemory
+      ? lookupPar(context.parMemory, { vendor: vendorName, description: finalDescription, catalogId })
+      : undefined;
+
+    if (par === 0 && rememberedPar !== undefined) {
+      par = rememberedPar;
+      parSource = 'memory';
+    } else if (par === 0) {
+      parSource = 'default';
+      if (catalogMatch && catalogMatch.item.defaultPar > 0) {
+        par = catalogMatch.item.defaultPar;
+      } else if (extractedOrder > 0) {
+        par = inStock + extractedOrder;
+      } else {
+        // Heuristic default if no order is written
+        par = inStock > 0 ? inStock + 5 : 10;
+      }
+    }
+
+    // Calculate the raw need:
+    // If the sheet explicitly had an order number, use it (trust the handwriting).
+    // Otherwise, calculate based on PAR - Stock.
+    let rawNeed = extractedOrder;
+
+    // If no order was written, but we have a PAR (either extracted or defaulted), calculate it.
+    if (rawNeed === 0 && par > 0) {
+       rawNeed = Math.max(0, par - inStock);
+    }
+
+    // Case packs, minimums and caps turn the need into what we actually order
+    const finalOrder = resolveOrder({ vendor: vendorName, description: finalDescription, catalogId }, rawNeed, context.orderRules || []);
+
+    const uniqueId = Math.random().toString(36).substr(2, 9);
+
+    // The catalog knows best how an item is counted and priced; otherwise the vendor profile decides.
+    // What comes out is kept as the scanned values, so the review can show what a person changed.
+    return withScannedValues(withCatalogUnits({
+      id: `item-${Date.now()}-${uniqueId}`,
+      description: finalDescription,
+      vendor: vendorName,
+      inStock: inStock,
+      par: par,
+      order: finalOrder,
+      price: price,
+      confidence: normalizeConfidence(item.confidence),
+      caseSize,
+      unit,
+      weight,
+      weightUnit,
+      priceBasis: profile.priceBasis || 'unit',
+      catalogId,
+      parSource,
+      rawNeed,
+      rowBox: normalizeRowBox(item.rowBox),
+    }, catalogMatch?.item));
+  });
+};
+
+export interface ExtractionOptions {
+  provider: ExtractionProviderId;
+  recordResponses?: boolean;
+  vendorProfiles?: VendorProfile[];
+  context?: MappingContext;
+}
+
+export const extractInvoiceData = async (base64Data: string, mimeType: string, options: ExtractionOptions): Promise<InvoiceItem[]> => {
+  const provider = getExtractionProvider(options.provider);
+
+  // Thrown outside the try so the reason reaches the scan queue instead of the generic failure
+  if (provider.imagesOnly && mimeType === 'application/pdf') {
+    throw new Error(`${provider.label} can't read PDFs. Upload photos of the pages, or switch the extraction engine in Settings.`);
+  }
+
+  try {
+    const imageHash = await hashImage(base64Data);
+    const input = { base64Data, mimeType, imageHash };
+
+    // Detect the vendor first so the prompt and schema match that vendor's layout.
+    // Skipped when no profiles are set up, to avoid an extra round trip.
+    let profile = DEFAULT_VENDOR_PROFILE;
+    const profiles = options.vendorProfiles || [];
+    if (profiles.length > 0 && provider.detectVendor) {
+      const headerText = await provider.detectVendor(input);
+      profile = matchVendorProfile(headerText, profiles) || DEFAULT_VENDOR_PROFILE;
+    }
+
+    const rawData = await provider.extract({ ...input, profile });
+
+    // Recording a replay of a replay would be a no-op, so only record live providers
+    if (options.recordResponses && provider.id !== 'replay') {
+      saveReplay(imageHash, rawData);
+    }
+
+    return mapRawExtraction(rawData, profile, options.context);
+  } catch (error) {
+    console.error(`${provider.label} Extraction Error:`, error);
+    throw new Error("Failed to extract data from the invoice. Please try again.");
+  }
+};
@@ -1,158 +1,223 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { InvoiceItem } from "../types";
+import { ExtractionInput, ExtractionProvider, ProfiledExtractionInput, RawExtraction, SheetColumn, VendorProfile } from "../types";
+import { getExtractedColumns, SHEET_COLUMN_LABELS } from "./vendorProfileService";
+
+const MODEL = "gemini-2.5-flash";
+
+// Created on first use so the app can run with other providers when no API key is configured.
+// GEMINI_BASE_URL points it at the local mock server instead of Google.
+let ai: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!ai) {
+    const baseUrl = process.env.GEMINI_BASE_URL;
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+  }
+  return ai;
+};
+
+const ordinal = (n: number) => ['FIRST', 'SECOND', 'THIRD', 'FOURTH', 'FIFTH', 'SIXTH', 'SEVENTH'][n - 1] || `#${n}`;
+
+// Where a column sits relative to the Description, e.g. "immediately to the left of the Description"
+const describePosition = (profile: VendorProfile, column: SheetColumn) => {
+  const index = profile.columns.indexOf(column);
+  const descIndex = profile.columns.indexOf('description');
+  const place = `the ${ordinal(index + 1)} column`;
+  if (descIndex === -1 || index === descIndex) return place;
+  if (index === descIndex - 1) return `${place}, located immediately to the left of the Description`;
+  if (index === descIndex + 1) return `${place}, located immediately to the right of the Description`;
+  return `${place}, ${index < descIndex ? 'left' : 'right'} of the Description`;
+};
+
+const columnSchema = (profile: VendorProfile, column: SheetColumn): Schema => {
+  const position = describePosition(profile, column);
+  const ignoresWeight = profile.columns.includes('weight') && profile.weightHandling === 'ignore';
+
+  switch (column) {
+    case 'description':
+      return { type: Type.STRING, description: "The printed item name found in the Description column." };
+    case 'inStock':
+      return { type: Type.NUMBER, description: `The handwritten number in ${position}. This is 'In Stock'. Watch out for scribbles.` };
+    case 'par':
+      return { type: Type.NUMBER, description: `The handwritten number in ${position} (PAR). Return 0 if empty.` };
+    case 'order':
+      return { type: Type.NUMBER, description: `The handwritten number in ${position} (Order). DO NOT confuse with the In Stock column.` };
+    case 'price':
+      return {
+        type: Type.NUMBER,
+        description: `The number in ${position}.${ignoresWeight ? " STRICTLY IGNORE columns labeled 'lbs', 'Weight', or 'Oz'." : ''} Only return a number if it is a monetary Price/Cost. Default to 0.`,
+      };
+    case 'caseSize':
+      return { type: Type.NUMBER, description: `The case/pack size in ${position} (e.g. '12ct' or '24/cs' means 12 or 24). Return 0 if empty.` };
+    case 'weight':
+      return { type: Type.NUMBER, description: `The weight in ${position} (lbs/Oz). Return 0 if empty.` };
+    case 'unit':
+      return { type: Type.STRING, description: `The unit of measure in ${position}, as printed (e.g. 'cs', 'ea', 'lb', 'bunch'). Empty if blank.` };
+  }
+};
+
+// Define a schema that includes Vendor metadata and the list of items, shaped by the vendor's layout
+export const buildInvoiceSchema = (profile: VendorProfile): Schema => {
+  const columns = getExtractedColumns(profile);
+  const confidenceFields = columns.filter(c => c !== 'caseSize' && c !== 'weight' && c !== 'unit');
+  const weightUnit: Record<string, Schema> = columns.includes('weight')
+    ? { weightUnit: { type: Type.STRING, description: "The weight unit used in the Weight column ('lb' or 'oz'), from the header or the cell." } }
+    : {};
+
+  return {
+    type: Type.OBJECT,
+    properties: {
+      vendorName: {
+        type: Type.STRING,
+        description: "The printed header text found at the EXTREME top-left of the page (e.g. 'Asian Vegetables'). Strictly IGNORE handwritten notes.",
+      },
+      items: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            ...Object.fromEntries(columns.map(col => [col, columnSchema(profile, col)])),
+            ...weightUnit,
+            rowBox: {
+              type: Type.ARRAY,
+              description: "Bounding box of the WHOLE row as [ymin, xmin, ymax, xmax], normalized to 0-1000.",
+              items: { type: Type.NUMBER },
+            },
+            confidence: {
+              type: Type.OBJECT,
+              description: "How certain you are of each value in this row, from 0 (guess) to 1 (certain).",
+              properties: Object.fromEntries(confidenceFields.map(col => [col, { type: Type.NUMBER }])),
+            },
+          },
+          required: ["description"],
+        },
+      }
+    },
+  };
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const COLUMN_HINTS: Record<SheetColumn, string> = {
+  inStock: "Handwritten numbers.",
+  par: "Often blank/empty.",
+  order: "Handwritten numbers.",
+  description: "Printed English text.",
+  price: "Look for currency columns.",
+  caseSize: "Printed or handwritten pack size.",
+  weight: "Weight in lbs/Oz.",
+  unit: "Unit of measure text, e.g. cs, ea, lb, bunch.",
+};
+
+const columnMappingLine = (profile: VendorProfile, column: SheetColumn, index: number) => {
+  const label = SHEET_COLUMN_LABELS[column];
+  const descIndex = profile.columns.indexOf('description');
+  let hint = COLUMN_HINTS[column];
 
-// Define a schema that includes Vendor metadata and the list of items
-const INVOICE_SCHEMA: Schema = {
+  if (column === 'order' && Math.abs(index - descIndex) === 1) {
+    hint += ` **This column is immediately to the ${index < descIndex ? 'left' : 'right'} of the Item Description.**`;
+  }
+  if (column === 'price' && profile.priceHandling === 'none') {
+    hint = "**IGNORE this column.** Do not return a price.";
+  } else if (column === 'price' && profile.columns.includes('weight') && profile.weightHandling === 'ignore') {
+    hint += " **STRICTLY IGNORE 'lbs', 'Weight', or 'Oz' columns.** If the only number to the right is weight, return 0 for Price.";
+  }
+  if (column === 'weight') {
+    hint = profile.weightHandling === 'capture'
+      ? "Weight in lbs/Oz. Return it as 'weight' and its unit as 'weightUnit'; never use it as Price."
+      : "**STRICTLY IGNORE this column.** Never return it as Price.";
+  }
+  return `${index + 1}. **${label}** (Column ${index + 1}): ${hint}`;
+};
+
+export const buildExtractionPrompt = (profile: VendorProfile) => `Analyze this inventory sheet/invoice image to extract data for a spreadsheet.
+
+### 1. VENDOR NAME (EXTREME TOP LEFT)
+- **HIGHEST PRIORITY:** The Vendor Name is the **FIRST PRINTED TEXT** located at the **EXTREME TOP-LEFT CORNER** of the page.
+- Examples of Printed Titles: "Asian Vegetables", "General Produce", "Frozen Goods".
+- **STRICTLY IGNORE** any handwritten text (like names of people, dates, or "VIEN DONG 4") that might be written next to the printed title or circled.
+- If there is both printed text and handwritten text at the top, **ONLY** extract the printed text.
+
+### 2. HANDWRITTEN NUMBERS (CRITICAL)
+- This document contains **Handwritten Digits**.
+- **Accuracy is paramount.**
+- **Common Handwriting Styles:**
+  - **0 (Zero):** Can be a circle, a loop, a dot, or a crossed circle.
+  - **1 (One):** Often a simple vertical line.
+  - **7 (Seven):** May have a horizontal crossbar.
+  - **Empty Cells:** Interpret as 0.
+- If a number is scribbled out or corrected, look for the clear final number.
+
+### 3. COLUMN MAPPING (Left to Right)
+${profile.columns.map((col, i) => columnMappingLine(profile, col, i)).join('\n')}
+
+### ROW EXTRACTION RULES
+- Extract every row that has a Printed Description.
+- Accurately map the handwritten number in the In Stock column to 'inStock'.
+- Accurately map the handwritten number in the Order column to 'order'.
+- **Do not swap Stock and Order columns.**
+- For every row, return 'rowBox': the [ymin, xmin, ymax, xmax] box (0-1000 scale) spanning the full width of that row, from the first column to the last.
+
+### CONFIDENCE
+- For every row, rate your certainty (0 to 1) for each value you return.
+- Use a LOW score whenever a digit is ambiguous (1 vs 7, a zero drawn as a dot, overwritten numbers) or the text is partly illegible.
+- Empty cells that you are sure are empty should be scored HIGH.`;
+
+const HEADER_SCHEMA: Schema = {
   type: Type.OBJECT,
   properties: {
-    vendorName: {
+    headerText: {
       type: Type.STRING,
-      description: "The printed header text found at the EXTREME top-left of the page (e.g. 'Asian Vegetables'). Strictly IGNORE handwritten notes.",
+      description: "All PRINTED title/header text at the top of the page, exactly as printed. Ignore handwriting.",
     },
-    items: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          description: {
-            type: Type.STRING,
-            description: "The printed item name found in the Description column.",
-          },
-          column1_inStock: {
-            type: Type.NUMBER,
-            description: "The handwritten number in the FIRST column (Far Left). This is 'In Stock'. Watch out for scribbles.",
-          },
-          column2_par: {
-            type: Type.NUMBER,
-            description: "The handwritten number in the SECOND column (PAR). Return 0 if empty.",
-          },
-          column3_order: {
-            type: Type.NUMBER,
-            description: "The handwritten number in the THIRD column (Order), located immediately to the left of the Description. DO NOT confuse with First Column.",
-          },
-          column4_price: {
-            type: Type.NUMBER,
-            description: "The number found to the right of the Description. STRICTLY IGNORE columns labeled 'lbs', 'Weight', or 'Oz'. Only return a number if it is a monetary Price/Cost. Default to 0.",
-          },
-        },
-        required: ["description"],
-      },
-    }
   },
 };
 
-export const extractInvoiceData = async (base64Data: string, mimeType: string): Promise<InvoiceItem[]> => {
-  try {
-    const model = "gemini-2.5-flash";
+const imagePart = ({ base64Data, mimeType }: ExtractionInput) => ({
+  inlineData: {
+    data: base64Data,
+    mimeType: mimeType,
+  },
+});
+
+export const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  label: 'Gemini (Cloud)',
+  detectVendor: async (input: ExtractionInput): Promise<string> => {
+    const response = await getClient().models.generateContent({
+      model: MODEL,
+      contents: {
+        parts: [
+          imagePart(input),
+          { text: "Read the printed header at the top of this order sheet so we can identify the vendor." }
+        ],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: HEADER_SCHEMA,
+      },
+    });
 
-    const response = await ai.models.generateContent({
-      model,
+    const text = response.text;
+    return text ? (JSON.parse(text).headerText || '') : '';
+  },
+  extract: async (input: ProfiledExtractionInput): Promise<RawExtraction> => {
+    const response = await getClient().models.generateContent({
+      model: MODEL,
       contents: {
         parts: [
+          imagePart(input),
           {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: `Analyze this inventory sheet/invoice image to extract data for a spreadsheet.
-
-            ### 1. VENDOR NAME (EXTREME TOP LEFT)
-            - **HIGHEST PRIORITY:** The Vendor Name is the **FIRST PRINTED TEXT** located at the **EXTREME TOP-LEFT CORNER** of the page.
-            - Examples of Printed Titles: "Asian Vegetables", "General Produce", "Frozen Goods".
-            - **STRICTLY IGNORE** any handwritten text (like names of people, dates, or "VIEN DONG 4") that might be written next to the printed title or circled.
-            - If there is both printed text and handwritten text at the top, **ONLY** extract the printed text.
-
-            ### 2. HANDWRITTEN NUMBERS (CRITICAL)
-            - This document contains **Handwritten Digits**.
-            - **Accuracy is paramount.**
-            - **Common Handwriting Styles:**
-              - **0 (Zero):** Can be a circle, a loop, a dot, or a crossed circle.
-              - **1 (One):** Often a simple vertical line.
-              - **7 (Seven):** May have a horizontal crossbar.
-              - **Empty Cells:** Interpret as 0.
-            - If a number is scribbled out or corrected, look for the clear final number.
-
-            ### 3. COLUMN MAPPING (Left to Right)
-            1. **In Stock** (Far Left Column): Handwritten numbers.
-            2. **PAR** (Second Column): Often blank/empty.
-            3. **Order** (Third Column): Handwritten numbers. **This column is immediately to the left of the Item Description.**
-            4. **Description** (Fourth Column): Printed English text.
-            5. **Price** (Right Side): Look for currency columns. **STRICTLY IGNORE 'lbs', 'Weight', or 'Oz' columns.** If the only number to the right is weight, return 0 for Price.
-
-            ### ROW EXTRACTION RULES
-            - Extract every row that has a Printed Description.
-            - Accurately map the handwritten number on the far left to 'inStock'.
-            - Accurately map the handwritten number just before the text to 'order'.
-            - **Do not swap Stock and Order columns.**`
+            text: buildExtractionPrompt(input.profile)
           }
         ],
       },
       config: {
         responseMimeType: "application/json",
-        responseSchema: INVOICE_SCHEMA,
+        responseSchema: buildInvoiceSchema(input.profile),
       },
     });
 
     const text = response.text;
-    if (!text) return [];
-
-    const rawData = JSON.parse(text);
-    
-    // Handle both object return (new schema) and array return (fallback)
-    const itemsList = Array.isArray(rawData) ? rawData : (rawData.items || []);
-    const vendorName = rawData.vendorName ? rawData.vendorName.trim() : "";
-
-    // Map to internal structure
-    return itemsList.map((item: any) => {
-      const inStock = Number(item.column1_inStock) || 0;
-      const extractedOrder = Number(item.column3_order) || 0;
-      let par = Number(item.column2_par) || 0;
-      const price = Number(item.column4_price) || 0;
-
-      // Logic:
-      // 1. If PAR is written on paper, use it.
-      // 2. If PAR is missing/zero, but we have Stock and Order: Infer PAR = Stock + Order.
-      // 3. If PAR and Order are missing: Default PAR = Stock + buffer.
-      
-      if (par === 0) {
-        if (extractedOrder > 0) {
-          par = inStock + extractedOrder;
-        } else {
-          // Heuristic default if no order is written
-          par = inStock > 0 ? inStock + 5 : 10;
-        }
-      }
-
-      // Calculate final Order:
-      // If the sheet explicitly had an order number, use it (trust the handwriting).
-      // Otherwise, calculate based on PAR - Stock.
-      let finalOrder = extractedOrder;
-      
-      // If no order was written, but we have a PAR (either extracted or defaulted), calculate it.
-      if (finalOrder === 0 && par > 0) {
-         finalOrder = Math.max(0, par - inStock);
-      }
-
-      const uniqueId = Math.random().toString(36).substr(2, 9);
-      const finalDescription = item.description || "Unknown Item";
+    if (!text) return { items: [] };
 
-      return {
-        id: `item-${Date.now()}-${uniqueId}`,
-        description: finalDescription,
-        vendor: vendorName, 
-        inStock: inStock,
-        par: par,
-        order: finalOrder,
-        price: price,
-      };
-    });
-
-  } catch (error) {
-    console.error("Gemini Extraction Error:", error);
-    throw new Error("Failed to extract data from the invoice. Please try again.");
-  }
-};
\ No newline at end of file
+    return JSON.parse(text);
+  },
+};
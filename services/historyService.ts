@@ -0,0 +1,119 @@
+import { CatalogItem, InvoiceItem, InvoiceRecord } from "../types";
+import { normalizeText } from "./catalogService";
+import { duplicateKey } from "./mergeService";
+import { lineTotal } from "./unitService";
+
+export interface HistoryFilter {
+  query: string; // Matches item descriptions, SKUs and vendors
+  vendor: string; // Exact vendor; blank = any
+  from: string; // YYYY-MM-DD, inclusive; blank = open
+  to: string;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = { query: '', vendor: '', from: '', to: '' };
+
+export interface RecordTotals {
+  items: number;
+  ordered: number; // Rows with an Order above 0
+  orderQuantity: number;
+  value: number; // Sum of the line totals that could be worked out
+  unpriced: number; // Ordered rows without a line total
+}
+
+export const recordTotals = (record: InvoiceRecord, catalog: CatalogItem[] = []): RecordTotals => {
+  const ordered = record.items.filter(item => Number(item.order) > 0);
+  const totals = ordered.map(item => lineTotal(item, catalog));
+  return {
+    items: record.items.length,
+    ordered: ordered.length,
+    orderQuantity: ordered.reduce((sum, item) => sum + Number(item.order), 0),
+    value: Math.round(totals.reduce((sum, total) => sum + (total ?? 0), 0) * 100) / 100,
+    unpriced: totals.filter(total => total === undefined).length,
+  };
+};
+
+// Every vendor that appears in history, for the vendor filter
+export const historyVendors = (history: InvoiceRecord[]) => {
+  const byKey = new Map<string, string>();
+  history.forEach(record => record.items.forEach(item => {
+    const key = normalizeText(item.vendor);
+    if (key && !byKey.has(key)) byKey.set(key, item.vendor.trim());
+  }));
+  return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b));
+};
+
+const itemMatches = (item: InvoiceItem, query: string) =>
+  [item.description, item.vendor, item.catalogId || ''].some(text => normalizeText(text).includes(query));
+
+// Rows of the record the search matched, to show why it's in the results
+export const matchingItems = (record: InvoiceRecord, filter: HistoryFilter) => {
+  const query = normalizeText(filter.query);
+  const vendor = normalizeText(filter.vendor);
+  return record.items.filter(item =>
+    (!query || itemMatches(item, query)) && (!vendor || normalizeText(item.vendor) === vendor)
+  );
+};
+
+// Dates compare on the local calendar day the record was started
+const localDay = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const filterRecords = (history: InvoiceRecord[], filter: HistoryFilter) =>
+  history.filter(record => {
+    const day = localDay(record.date);
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (!filter.query.trim() && !filter.vendor) return true;
+    return matchingItems(record, filter).length > 0;
+  });
+
+export const COMPARE_FIELDS = ['inStock', 'par', 'order', 'price'] as const;
+export type CompareField = typeof COMPARE_FIELDS[number];
+
+export type ItemDiffStatus = 'added' | 'removed' | 'changed' | 'same';
+
+export interface ItemDiff {
+  key: string;
+  description: string;
+  vendor: string;
+  before?: InvoiceItem;
+  after?: InvoiceItem;
+  status: ItemDiffStatus;
+  changed: CompareField[];
+}
+
+// Pairs rows by catalog id or vendor + description, as duplicate detection does.
+// If a record lists the same item twice, the first row stands for it.
+export const compareRecords = (older: InvoiceRecord, newer: InvoiceRecord): ItemDiff[] => {
+  const index = (record: InvoiceRecord) => {
+    const byKey = new Map<string, InvoiceItem>();
+    record.items.forEach(item => {
+      const key = duplicateKey(item);
+      if (!byKey.has(key)) byKey.set(key, item);
+    });
+    return byKey;
+  };
+  const before = index(older);
+  const after = index(newer);
+
+  const keys = [...before.keys(), ...Array.from(after.keys()).filter(key => !before.has(key))];
+  return keys
+    .map((key): ItemDiff => {
+      const a = before.get(key);
+      const b = after.get(key);
+      const changed = a && b ? COMPARE_FIELDS.filter(field => Number(a[field]) !== Number(b[field])) : [];
+      const item = (b || a)!;
+      return {
+        key,
+        description: item.description,
+        vendor: item.vendor,
+        before: a,
+        after: b,
+        status: !a ? 'added' : !b ? 'removed' : changed.length > 0 ? 'changed' : 'same',
+        changed,
+      };
+    })
+    .sort((x, y) => x.description.toLowerCase().localeCompare(y.description.toLowerCase()));
+};
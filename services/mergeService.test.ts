@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { InvoiceItem } from '../types';
+import { withoutDuplicates } from './mergeService';
+
+const row = (id: string, description: string, vendor = 'Sysco') => ({ id, vendor, description }) as InvoiceItem;
+
+describe('withoutDuplicates', () => {
+  it('drops rows already in the review', () => {
+    const existing = [row('a', 'Cilantro')];
+    expect(withoutDuplicates(existing, [row('b', 'cilantro'), row('c', 'Parsley')]).map(r => r.id)).toEqual(['c']);
+  });
+
+  it('keeps only the first of repeated rows within the page', () => {
+    const incoming = [row('a', 'Cilantro'), row('b', 'Parsley'), row('c', 'Cilantro'), row('d', 'Cilantro', 'US Foods')];
+    expect(withoutDuplicates([], incoming).map(r => r.id)).toEqual(['a', 'b', 'd']);
+  });
+
+  it('never treats blank rows as duplicates', () => {
+    expect(withoutDuplicates([row('a', '')], [row('b', ''), row('c', ' ')]).map(r => r.id)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,113 @@
+import { CatalogItem, InvoiceItem } from "../types";
+import { normalizeText } from "./catalogService";
+import { convertQuantity } from "./unitService";
+
+export type MergeChoice = 'newer' | 'older' | 'sum';
+
+// A later row that duplicates an earlier one (same vendor + catalog id or description)
+export interface MergeConflict {
+  older: InvoiceItem;
+  newer: InvoiceItem;
+}
+
+export const MERGE_FIELDS: (keyof Pick<InvoiceItem, 'inStock' | 'par' | 'order' | 'price'>)[] = ['inStock', 'par', 'order', 'price'];
+
+export const duplicateKey = (item: Pick<InvoiceItem, 'vendor' | 'description' | 'catalogId'>) =>
+  `${normalizeText(item.vendor)}::${item.catalogId || normalizeText(item.description)}`;
+
+// Every later row is paired with the first row sharing its key, in list order
+export const findDuplicateConflicts = (items: InvoiceItem[]): MergeConflict[] => {
+  const firstByKey = new Map<string, InvoiceItem>();
+  const conflicts: MergeConflict[] = [];
+
+  items.forEach(item => {
+    if (!item.description.trim()) return;
+    const key = duplicateKey(item);
+    const first = firstByKey.get(key);
+    if (first) {
+      conflicts.push({ older: first, newer: item });
+    } else {
+      firstByKey.set(key, item);
+    }
+  });
+  return conflicts;
+};
+
+// Rows from `incoming` that don't duplicate anything already in `existing` or an earlier
+// incoming row (a page listing the same item twice). Blank rows are never duplicates,
+// as in findDuplicateConflicts.
+export const withoutDuplicates = (existing: InvoiceItem[], incoming: InvoiceItem[]) => {
+  const known = new Set(existing.filter(item => item.description.trim()).map(duplicateKey));
+  return incoming.filter(item => {
+    if (!item.description.trim()) return true;
+    const key = duplicateKey(item);
+    if (known.has(key)) return false;
+    known.add(key);
+    return true;
+  });
+};
+
+export const hasDifferences = ({ older, newer }: MergeConflict) =>
+  MERGE_FIELDS.some(field => Number(older[field]) !== Number(newer[field]));
+
+// How many of the older row's unit one of the newer row's unit is (12 each vs 1 case), using the
+// matched catalog item's conversions. A row without a unit is taken to count in the other's unit.
+// Undefined when the units aren't connected, so the counts can't be added up.
+export const sumFactor = (older: InvoiceItem, newer: InvoiceItem, catalog: CatalogItem[] = []): number | undefined => {
+  if (!older.unit || !newer.unit) return 1;
+  const catalogItem = catalog.find(c => c.id === (older.catalogId || newer.catalogId));
+  return convertQuantity(1, newer.unit, older.unit, catalogItem?.conversions);
+};
+
+export const canSum = ({ older, newer }: MergeConflict, catalog: CatalogItem[] = []) =>
+  sumFactor(older, newer, catalog) !== undefined;
+
+// Summing adds up the counted and ordered quantities (two partial counts of the same shelf);
+// PAR and price are levels, not quantities, so the newer non-zero value is kept.
+// Undefined when the rows are counted in units that can't be converted.
+export const mergeItems = (older: InvoiceItem, newer: InvoiceItem, choice: MergeChoice, catalog: CatalogItem[] = []): InvoiceItem | undefined => {
+  if (choice === 'older') return older;
+  if (choice === 'newer') return { ...newer, id: older.id };
+
+  const toOlderUnit = sumFactor(older, newer, catalog);
+  if (toOlderUnit === undefined) return undefined;
+  return {
+    ...older,
+    inStock: Number(older.inStock) + Number(newer.inStock) * toOlderUnit,
+    order: Number(older.order) + Number(newer.order) * toOlderUnit,
+    rawNeed: undefined,
+    par: Number(newer.par) || Number(older.par),
+    price: Number(newer.price) || Number(older.price),
+  };
+};
+
+export interface MergeResult {
+  items: InvoiceItem[];
+  kept: MergeConflict[]; // Sums that couldn't be done; both rows are left in place
+}
+
+// Folds each newer row into its older row (keeping the older row's position) and drops the newer one
+export const applyMergeChoices = (
+  items: InvoiceItem[],
+  conflicts: MergeConflict[],
+  choices: Record<string, MergeChoice>,
+  catalog: CatalogItem[] = []
+): MergeResult => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const kept: MergeConflict[] = [];
+
+  conflicts.forEach(conflict => {
+    const { older, newer } = conflict;
+    const current = byId.get(older.id);
+    if (!current || !byId.has(newer.id)) return;
+    const merged = mergeItems(current, newer, choices[newer.id] || 'newer', catalog);
+    if (!merged) {
+      kept.push(conflict);
+      return;
+    }
+    byId.set(older.id, merged);
+    byId.delete(newer.id);
+  });
+
+  return { items: items.filter(item => byId.has(item.id)).map(item => byId.get(item.id)!), kept };
+};
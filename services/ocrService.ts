@@ -0,0 +1,90 @@
+import { ExtractionInput, ExtractionProvider, ProfiledExtractionInput, RawExtraction, RawExtractionItem, SheetColumn, VendorProfile } from "../types";
+import { DEFAULT_VENDOR_PROFILE, getExtractedColumns } from "./vendorProfileService";
+
+// Matches "[numbers] Description [numbers]" rows. Numbers on either side are optional
+// because empty handwritten cells produce no OCR text at all.
+const ROW_PATTERN = /^((?:\d+(?:\.\d+)?\s+)*)([A-Za-z][A-Za-z0-9 &'\/().,-]*?)((?:\s+\$?\s*\d+(?:\.\d{1,2})?)*)$/;
+
+type NumericColumn = Exclude<SheetColumn, 'description' | 'unit'>;
+
+const toNumbers = (text: string) => text.replace(/\$/g, '').trim().split(/\s+/).filter(Boolean).map(Number);
+
+// Assigns numbers to columns left to right. When fewer numbers than columns were read,
+// PAR is assumed blank first (it usually is on paper), then trailing columns are left empty.
+const assignColumns = (numbers: number[], columns: NumericColumn[]): Partial<Record<NumericColumn, number>> => {
+  let targets = columns;
+  if (numbers.length < targets.length && targets.includes('par')) {
+    targets = targets.filter(c => c !== 'par');
+  }
+  return Object.fromEntries(targets.slice(0, numbers.length).map((col, i) => [col, numbers[i]]));
+};
+
+const parseRow = (line: string, profile: VendorProfile): RawExtractionItem | null => {
+  const match = line.match(ROW_PATTERN);
+  if (!match) return null;
+
+  const description = match[2].trim();
+  if (description.length < 2) return null;
+
+  // Unit text can't be told apart from the description in a plain OCR line
+  const columns = getExtractedColumns(profile).filter(col => col !== 'unit');
+  const descIndex = columns.indexOf('description');
+  const left = columns.slice(0, Math.max(0, descIndex)) as NumericColumn[];
+  const right = columns.slice(descIndex + 1) as NumericColumn[];
+
+  return {
+    description,
+    ...assignColumns(toNumbers(match[1]), left),
+    ...assignColumns(toNumbers(match[3]), right),
+  };
+};
+
+// Tesseract only reports page-level confidence (0-100), so every field shares it
+export const parseOcrText = (text: string, pageConfidence = 0, profile: VendorProfile = DEFAULT_VENDOR_PROFILE): RawExtraction => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const [header, ...rows] = lines;
+  const score = pageConfidence / 100;
+
+  return {
+    vendorName: header || '',
+    items: rows
+      .map(row => parseRow(row, profile))
+      .filter((row): row is RawExtractionItem => row !== null)
+      .map(row => ({
+        ...row,
+        confidence: { inStock: score, par: score, order: score, price: score, description: score },
+      })),
+  };
+};
+
+// Vendor detection and extraction run on the same image, so keep the last result around
+let lastRecognition: { imageHash: string; text: string; confidence: number } | null = null;
+
+const recognize = async ({ base64Data, mimeType, imageHash }: ExtractionInput) => {
+  if (mimeType === 'application/pdf') {
+    throw new Error("Local OCR only supports images");
+  }
+  if (lastRecognition?.imageHash === imageHash) return lastRecognition;
+
+  // Loaded lazily: the OCR engine is large and most sessions never need it
+  const Tesseract = (await import('tesseract.js')).default;
+  const result = await Tesseract.recognize(`data:${mimeType};base64,${base64Data}`, 'eng');
+
+  lastRecognition = { imageHash, text: result.data.text, confidence: result.data.confidence };
+  return lastRecognition;
+};
+
+// In-browser Tesseract OCR. Much weaker on handwriting than Gemini, but needs no API.
+export const ocrProvider: ExtractionProvider = {
+  id: 'ocr',
+  label: 'Local OCR (Offline)',
+  imagesOnly: true,
+  detectVendor: async (input: ExtractionInput) => {
+    const { text } = await recognize(input);
+    return text.split('\n').map(l => l.trim()).find(Boolean) || '';
+  },
+  extract: async (input: ProfiledExtractionInput) => {
+    const { text, confidence } = await recognize(input);
+    return parseOcrText(text, confidence, input.profile);
+  },
+};
@@ -0,0 +1,63 @@
+import { InvoiceItem, OrderRule } from "../types";
+import { normalizeText } from "./catalogService";
+
+type RuleTarget = Pick<InvoiceItem, 'vendor' | 'description' | 'catalogId'>;
+
+export const createOrderRule = (scope: OrderRule['scope'] = 'vendor'): OrderRule => ({
+  id: `rule-${Date.now()}`,
+  scope,
+  vendor: '',
+  item: '',
+  packSize: 1,
+  rounding: 'up',
+  minOrder: 0,
+  maxOrder: 0,
+  neverOrder: false,
+});
+
+const vendorMatches = (rule: OrderRule, item: RuleTarget) =>
+  !rule.vendor.trim() || normalizeText(rule.vendor) === normalizeText(item.vendor);
+
+const itemMatches = (rule: OrderRule, item: RuleTarget) =>
+  !!rule.item.trim() && (rule.item.trim() === item.catalogId || normalizeText(rule.item) === normalizeText(item.description));
+
+export const findOrderRule = (item: RuleTarget, rules: OrderRule[]): OrderRule | undefined =>
+  rules.find(rule => rule.scope === 'item' && vendorMatches(rule, item) && itemMatches(rule, item))
+  || rules.find(rule => rule.scope === 'vendor' && vendorMatches(rule, item));
+
+const roundToPack = (quantity: number, packSize: number, mode: OrderRule['rounding']) => {
+  const packs = quantity / packSize;
+  const rounded = mode === 'up' ? Math.ceil(packs) : mode === 'down' ? Math.floor(packs) : Math.round(packs);
+  return rounded * packSize;
+};
+
+// Pack rounding first, then the minimum (rounded up to whole packs), then the cap (rounded down)
+export const applyOrderRule = (need: number, rule?: OrderRule): number => {
+  const quantity = Math.max(0, Number(need) || 0);
+  if (!rule) return quantity;
+  if (rule.neverOrder || quantity === 0) return 0;
+
+  const pack = rule.packSize > 1 ? rule.packSize : 1;
+  let order = roundToPack(quantity, pack, rule.rounding);
+
+  if (rule.minOrder > 0 && order < rule.minOrder) {
+    order = roundToPack(rule.minOrder, pack, 'up');
+  }
+  if (rule.maxOrder > 0 && order > rule.maxOrder) {
+    order = Math.max(0, roundToPack(rule.maxOrder, pack, 'down'));
+  }
+  return order;
+};
+
+export const resolveOrder = (item: RuleTarget, need: number, rules: OrderRule[]) =>
+  applyOrderRule(need, findOrderRule(item, rules));
+
+export const describeOrderRule = (rule: OrderRule) => {
+  if (rule.neverOrder) return 'Never order';
+
+  const parts: string[] = [];
+  if (rule.packSize > 1) parts.push(`packs of ${rule.packSize} (round ${rule.rounding})`);
+  if (rule.minOrder > 0) parts.push(`min ${rule.minOrder}`);
+  if (rule.maxOrder > 0) parts.push(`max ${rule.maxOrder}`);
+  return parts.length > 0 ? parts.join(', ') : 'No adjustment';
+};
@@ -0,0 +1,24 @@
+import { InvoiceItem, ParMemory, RememberedPar } from "../types";
+import { normalizeText } from "./catalogService";
+
+type ParKeySource = Pick<InvoiceItem, 'vendor' | 'description' | 'catalogId'>;
+
+// Catalog ids survive spelling changes, so they are preferred over the description
+const catalogKey = (item: ParKeySource) => item.catalogId ? `${normalizeText(item.vendor)}::${item.catalogId}` : null;
+const descriptionKey = (item: ParKeySource) => `${normalizeText(item.vendor)}::${normalizeText(item.description)}`;
+
+export const lookupParEntry = (memory: ParMemory, item: ParKeySource): RememberedPar | undefined => {
+  const key = catalogKey(item);
+  return (key && memory[key]) || memory[descriptionKey(item)];
+};
+
+export const lookupPar = (memory: ParMemory, item: ParKeySource): number | undefined =>
+  lookupParEntry(memory, item)?.par;
+
+export const rememberPar = (memory: ParMemory, item: ParKeySource, par: number): ParMemory => {
+  if (!item.description.trim() || isNaN(par)) return memory;
+  return {
+    ...memory,
+    [catalogKey(item) || descriptionKey(item)]: { par, updatedAt: new Date().toISOString() },
+  };
+};
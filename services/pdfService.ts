@@ -0,0 +1,181 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Scanned PDFs are read with pdf.js, loaded lazily like the OCR engine: most sessions never need it.
+// Its worker module is loaded through the same import map and run on the main thread (pdf.js
+// picks it up from `globalThis.pdfjsWorker`), which avoids hosting a separate worker script.
+// Each file is opened once and shared by the queue entries for its pages.
+const openDocuments = new WeakMap<File, Promise<PDFDocumentProxy>>();
+
+const openPdf = (file: File): Promise<PDFDocumentProxy> => {
+  let pdf = openDocuments.get(file);
+  if (!pdf) {
+    pdf = (async () => {
+      const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs')]);
+      Object.assign(globalThis, { pdfjsWorker: worker });
+      return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    })();
+    openDocuments.set(file, pdf);
+    pdf.catch(() => openDocuments.delete(file)); // A failed open can be retried
+  }
+  return pdf;
+};
+
+export const countPdfPages = async (file: File): Promise<number> => (await openPdf(file)).numPages;
+
+// Same size limit as photos, so a page costs about the same to extract as a snapshot of it
+const MAX_PAGE_DIMENSION = 1500;
+
+// Renders one page (1-based) to a JPEG, so each page is extracted on its own and
+// keeps an image for the row crops in Review
+export const renderPdfPage = async (file: File, pageNumber: number): Promise<{ base64Data: string; mimeType: string }> => {
+  const page = await (await openPdf(file)).getPage(pageNumber);
+  try {
+    const size = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: MAX_PAGE_DIMENSION / Math.max(size.width, size.height) });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    await page.render({ canvas, viewport, background: 'white' }).promise;
+
+    return { base64Data: canvas.toDataURL('image/jpeg', 0.8).split(',')[1], mimeType: 'image/jpeg' };
+  } finally {
+    page.cleanup();
+  }
+};
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const ROW_HEIGHT = 14;
+const FONT_SIZE = 9;
+
+export interface PdfTableColumn {
+  header: string;
+  align?: 'left' | 'right';
+  width?: number; // Relative share of the page width, default 1
+}
+
+export interface PdfTableDocument {
+  title: string;
+  headerLines?: string[]; // Printed under the title, e.g. date or addresses
+  columns: PdfTableColumn[];
+  rows: string[][];
+  footerLines?: string[]; // Printed in bold after the table, e.g. totals
+}
+
+// The built-in fonts only cover Latin-1, so anything else prints as '?'
+const pdfString = (text: string) =>
+  `(${text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?').replace(/([\\()])/g, '\\$1')})`;
+
+// Approximate Helvetica advance widths (digits are exact), good enough for right-aligning numbers
+const textWidth = (text: string, size: number) =>
+  [...text].reduce((sum, c) => sum + (/[0-9$]/.test(c) ? 0.556 : /[ .,:;il|!'-]/.test(c) ? 0.278 : /[A-Z@%&MW]/.test(c) ? 0.667 : 0.5), 0) * size;
+
+const fitText = (text: string, maxWidth: number, size: number) => {
+  if (textWidth(text, size) <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 1 && textWidth(`${cut}...`, size) > maxWidth) cut = cut.slice(0, -1);
+  return `${cut}...`;
+};
+
+const textOp = (text: string, x: number, y: number, size: number, bold = false) =>
+  `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(1)} ${y.toFixed(1)} Td ${pdfString(text)} Tj ET`;
+
+const lineOp = (x1: number, y1: number, x2: number, y2: number, gray = 0) =>
+  `${gray} G 0.5 w ${x1} ${y1.toFixed(1)} m ${x2} ${y2.toFixed(1)} l S`;
+
+// Lays out a titled table over as many pages as needed, repeating the column headers on each
+// page. Written by hand so printable documents need no PDF library.
+export const createTablePdf = (doc: PdfTableDocument): Blob => {
+  const tableWidth = PAGE_WIDTH - MARGIN * 2;
+  const totalWeight = doc.columns.reduce((sum, col) => sum + (col.width ?? 1), 0);
+  const widths = doc.columns.map(col => (col.width ?? 1) / totalWeight * tableWidth);
+  const lefts = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((a, b) => a + b, 0));
+
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const cellOps = (cells: string[], bold: boolean) => doc.columns.forEach((col, i) => {
+    const text = fitText(cells[i] ?? '', widths[i] - 6, FONT_SIZE);
+    const x = col.align === 'right' ? lefts[i] + widths[i] - 3 - textWidth(text, FONT_SIZE) : lefts[i] + 3;
+    ops.push(textOp(text, x, y, FONT_SIZE, bold));
+  });
+
+  const tableHeader = () => {
+    cellOps(doc.columns.map(col => col.header), true);
+    ops.push(lineOp(MARGIN, y - 4, PAGE_WIDTH - MARGIN, y - 4));
+    y -= ROW_HEIGHT + 2;
+  };
+
+  const newPage = () => {
+    if (ops.length > 0) pages.push(ops);
+    ops = [];
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  ops.push(textOp(doc.title, MARGIN, y - 6, 16, true));
+  y -= 30;
+  (doc.headerLines || []).forEach(line => {
+    ops.push(textOp(line, MARGIN, y, 10));
+    y -= 14;
+  });
+  y -= 10;
+  tableHeader();
+
+  doc.rows.forEach(row => {
+    if (y < MARGIN + ROW_HEIGHT * 2) {
+      newPage();
+      tableHeader();
+    }
+    cellOps(row, false);
+    ops.push(lineOp(MARGIN, y - 4, PAGE_WIDTH - MARGIN, y - 4, 0.85));
+    y -= ROW_HEIGHT;
+  });
+
+  if (doc.footerLines?.length) {
+    if (y < MARGIN + 20 + doc.footerLines.length * 14) newPage();
+    y -= 8;
+    doc.footerLines.forEach(line => {
+      ops.push(textOp(line, PAGE_WIDTH - MARGIN - textWidth(line, 10), y, 10, true));
+      y -= 14;
+    });
+  }
+  pages.push(ops);
+
+  pages.forEach((pageOps, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`;
+    pageOps.push(textOp(label, PAGE_WIDTH - MARGIN - textWidth(label, 8), MARGIN / 2, 8));
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page + content stream pair per page
+  const pageRefs = pages.map((_, i) => `${5 + i * 2} 0 R`);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ...pages.flatMap((pageOps, i) => {
+      const stream = pageOps.join('\n');
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+      ];
+    }),
+  ];
+
+  let out = '%PDF-1.4\n';
+  const offsets = objects.map((obj, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every character is Latin-1 at this point, so one char is one byte
+  return new Blob([Uint8Array.from(out, c => c.charCodeAt(0))], { type: 'application/pdf' });
+};
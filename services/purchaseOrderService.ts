@@ -0,0 +1,173 @@
+import { CatalogItem, InvoiceItem, PurchaseOrder, PurchaseOrderLine, PurchaseOrderRef, VendorContact } from "../types";
+import { normalizeText } from "./catalogService";
+import { createTablePdf } from "./pdfService";
+import { formatQuantity, lineTotal, normalizeUnit, pricedPer } from "./unitService";
+
+const UNKNOWN_VENDOR = 'Unknown Vendor';
+
+export const formatPoNumber = (n: number) => `PO-${String(n).padStart(5, '0')}`;
+
+export const parsePoNumber = (number: string) => Number(number.replace(/\D/g, '')) || 0;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Rows with something to order, grouped by vendor in the order vendors first appear
+export const groupOrdersByVendor = (items: InvoiceItem[]) => {
+  const groups = new Map<string, InvoiceItem[]>();
+  items
+    .filter(item => Number(item.order) > 0)
+    .forEach(item => {
+      const vendor = item.vendor.trim() || UNKNOWN_VENDOR;
+      groups.set(vendor, [...(groups.get(vendor) || []), item]);
+    });
+  return groups;
+};
+
+// Extended prices go through the item's weight and unit conversions, so produce priced per lb is costed by weight
+export const createPurchaseOrder = (number: string, vendor: string, items: InvoiceItem[], date = new Date().toISOString(), catalog: CatalogItem[] = []): PurchaseOrder => {
+  const lines = [...items]
+    .sort((a, b) => a.description.toLowerCase().localeCompare(b.description.toLowerCase()))
+    .map((item): PurchaseOrderLine => ({
+      description: item.description,
+      catalogId: item.catalogId,
+      quantity: Number(item.order),
+      unit: normalizeUnit(item.unit) || undefined,
+      unitPrice: Number(item.price) || 0,
+      pricedPer: pricedPer(item) || undefined,
+      extended: roundMoney(lineTotal(item, catalog) ?? 0),
+    }));
+
+  return { number, vendor, date, lines, total: roundMoney(lines.reduce((sum, line) => sum + line.extended, 0)) };
+};
+
+// Vendors that already have a PO for this review keep their number, so regenerating after an
+// edit doesn't use up new ones. New vendors are numbered after `lastNumber`.
+export const buildPurchaseOrders = (items: InvoiceItem[], issued: PurchaseOrderRef[], lastNumber: number, catalog: CatalogItem[] = []) => {
+  let last = lastNumber;
+  const orders = Array.from(groupOrdersByVendor(items), ([vendor, vendorItems]) => {
+    const existing = issued.find(ref => ref.vendor === vendor);
+    const number = existing ? existing.number : formatPoNumber(++last);
+    return createPurchaseOrder(number, vendor, vendorItems, existing?.date, catalog);
+  });
+  return { orders, lastNumber: last };
+};
+
+export const toPurchaseOrderRef = ({ number, vendor, date, total }: PurchaseOrder): PurchaseOrderRef => ({ number, vendor, date, total });
+
+export const findVendorContact = (contacts: VendorContact[], vendor: string) =>
+  contacts.find(contact => normalizeText(contact.vendor) === normalizeText(vendor));
+
+export const createVendorContact = (vendor = ''): VendorContact => ({
+  id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+  vendor,
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  accountNumber: '',
+});
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+// "$1.20/lb" when the price is per something other than what's counted
+const formatUnitPrice = (line: PurchaseOrderLine) =>
+  `${formatMoney(line.unitPrice)}${line.pricedPer && line.pricedPer !== line.unit ? `/${line.pricedPer}` : ''}`;
+
+export const purchaseOrderFileName = (po: PurchaseOrder, extension: string) =>
+  `${po.number}-${po.vendor.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '')}.${extension}`;
+
+const contactLines = (contact?: VendorContact) => {
+  if (!contact) return [];
+  const reach = [contact.email, contact.phone].filter(Boolean).join('  |  ');
+  return [
+    contact.contactName && `Attn: ${contact.contactName}`,
+    contact.address.replace(/\s*\n\s*/g, ', '),
+    reach,
+    contact.accountNumber && `Account #: ${contact.accountNumber}`,
+  ].filter(Boolean);
+};
+
+export const purchaseOrderPdf = (po: PurchaseOrder, contact?: VendorContact): Blob => createTablePdf({
+  title: `Purchase Order ${po.number}`,
+  headerLines: [`Date: ${formatDate(po.date)}`, `Vendor: ${po.vendor}`, ...contactLines(contact)],
+  columns: [
+    { header: 'Item', width: 4 },
+    { header: 'SKU', width: 1.5 },
+    { header: 'Qty', align: 'right' },
+    { header: 'Unit Price', align: 'right', width: 1.5 },
+    { header: 'Extended', align: 'right', width: 1.5 },
+  ],
+  rows: po.lines.map(line => [
+    line.description,
+    line.catalogId || '',
+    formatQuantity(line.quantity, line.unit),
+    line.unitPrice ? formatUnitPrice(line) : '-',
+    line.extended ? formatMoney(line.extended) : '-',
+  ]),
+  footerLines: [
+    `Total: ${formatMoney(po.total)}`,
+    ...(po.lines.some(line => !line.extended) ? ['Lines without a price (or a weight, when priced by weight) are not included in the total'] : []),
+  ],
+});
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// RFC 2047 encoded-word, only when the header isn't plain ASCII
+const encodeHeader = (text: string) =>
+  /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${bytesToBase64(new TextEncoder().encode(text))}?=`;
+
+const purchaseOrderText = (po: PurchaseOrder, contact?: VendorContact) => [
+  `Hello ${contact?.contactName || `${po.vendor} team`},`,
+  '',
+  `Please find our purchase order ${po.number} dated ${formatDate(po.date)} below and attached.`,
+  ...(contact?.accountNumber ? [`Account #: ${contact.accountNumber}`] : []),
+  '',
+  ...po.lines.map(line =>
+    `${formatQuantity(line.quantity, line.unit).padStart(9)}  ${line.description}${line.catalogId ? ` (${line.catalogId})` : ''}${line.unitPrice ? ` @ ${formatUnitPrice(line)}${line.extended ? ` = ${formatMoney(line.extended)}` : ''}` : ''}`
+  ),
+  '',
+  `Total: ${formatMoney(po.total)}`,
+  '',
+  'Thank you.',
+].join('\r\n');
+
+// An unsent message with the PDF attached. X-Unsent makes Outlook and Apple Mail open it as a draft.
+export const purchaseOrderEml = async (po: PurchaseOrder, contact?: VendorContact): Promise<Blob> => {
+  const pdf = purchaseOrderPdf(po, contact);
+  const attachment = bytesToBase64(new Uint8Array(await pdf.arrayBuffer())).replace(/.{76}/g, '$&\r\n');
+  const boundary = `----=_PO_${po.number}_${Date.now()}`;
+  const fileName = purchaseOrderFileName(po, 'pdf');
+
+  const message = [
+    `To: ${contact?.email || ''}`,
+    `Subject: ${encodeHeader(`Purchase Order ${po.number} - ${po.vendor}`)}`,
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    purchaseOrderText(po, contact),
+    '',
+    `--${boundary}`,
+    `Content-Type: application/pdf; name="${fileName}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; filename="${fileName}"`,
+    '',
+    attachment,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+
+  return new Blob([message], { type: 'message/rfc822' });
+};
@@ -0,0 +1,89 @@
+import { DestinationResult, InvoiceItem, InvoiceRecord, PurchaseOrderRef, RecordVersion, ScanPage } from "../types";
+
+// Older versions beyond this are dropped, oldest first
+export const MAX_RECORD_VERSIONS = 20;
+
+// What the review screen holds for a record
+export interface ReviewContent {
+  items: InvoiceItem[];
+  pages: ScanPage[];
+  purchaseOrders: PurchaseOrderRef[];
+}
+
+const sameList = <T>(saved: T[] | undefined, current: T[]) =>
+  (saved || []).length === current.length && current.every((entry, i) => saved![i] === entry);
+
+// Edits replace items rather than mutating them, so unchanged content is the very same objects
+export const recordMatchesReview = (record: InvoiceRecord, content: ReviewContent) =>
+  record.items === content.items && sameList(record.pages, content.pages) && sameList(record.purchaseOrders, content.purchaseOrders);
+
+export const createDraftRecord = (content: ReviewContent, now = new Date()): InvoiceRecord => ({
+  id: now.getTime().toString(),
+  date: now.toISOString(),
+  updatedAt: now.toISOString(),
+  items: content.items,
+  totalItems: content.items.length,
+  status: 'Draft',
+  revision: 1,
+  pages: content.pages,
+  purchaseOrders: content.purchaseOrders.length > 0 ? content.purchaseOrders : undefined,
+});
+
+const toVersion = (record: InvoiceRecord): RecordVersion => ({
+  revision: record.revision || 1,
+  savedAt: record.updatedAt || record.date,
+  status: record.status,
+  items: record.items,
+  purchaseOrders: record.purchaseOrders,
+});
+
+// The first edit after an export keeps the exported contents as a version and starts a new revision.
+// Further edits to the draft just overwrite it.
+export const updateDraft = (record: InvoiceRecord, content: ReviewContent, now = new Date()): InvoiceRecord => {
+  const reopened = record.status !== 'Draft';
+  return {
+    ...record,
+    updatedAt: now.toISOString(),
+    items: content.items,
+    totalItems: content.items.length,
+    status: 'Draft',
+    exportError: undefined,
+    revision: reopened ? (record.revision || 1) + 1 : record.revision || 1,
+    versions: reopened ? [...(record.versions || []), toVersion(record)].slice(-MAX_RECORD_VERSIONS) : record.versions,
+    pages: content.pages,
+    purchaseOrders: content.purchaseOrders.length > 0 ? content.purchaseOrders : undefined,
+  };
+};
+
+// Brings back an earlier version as a draft. What it replaces is kept as a version too, so nothing is lost.
+export const restoreVersion = (record: InvoiceRecord, version: RecordVersion, now = new Date()): InvoiceRecord => ({
+  ...record,
+  updatedAt: now.toISOString(),
+  items: version.items,
+  totalItems: version.items.length,
+  status: 'Draft',
+  exportError: undefined,
+  revision: (record.revision || 1) + 1,
+  versions: [...(record.versions || []), toVersion(record)].slice(-MAX_RECORD_VERSIONS),
+  purchaseOrders: version.purchaseOrders,
+});
+
+// Uploads are keyed per revision: a retry of the same revision is skipped as a duplicate,
+// while an edited record is sent again
+export const exportKey = (record: InvoiceRecord) =>
+  (record.revision || 1) > 1 ? `${record.id}-r${record.revision}` : record.id;
+
+export const markExported = (record: InvoiceRecord, error?: string, now = new Date()): InvoiceRecord => ({
+  ...record,
+  updatedAt: now.toISOString(),
+  status: error ? 'Export-failed' : 'Exported',
+  exportError: error,
+});
+
+// Queued or skipped destinations mean the record isn't fully exported yet
+export const exportErrorFromResults = (results: DestinationResult[]) => {
+  const problems = results.filter(r => r.status === 'queued' || r.status === 'skipped');
+  return problems.length > 0 ? problems.map(r => `${r.name}: ${r.error || r.status}`).join('; ') : undefined;
+};
+
+export const recordLabel = (record: InvoiceRecord) => `Invoice #${record.id.slice(-6)}`;
@@ -0,0 +1,52 @@
+import { ExtractionInput, ExtractionProvider, ProfiledExtractionInput, RawExtraction, RawExtractionItem } from "../types";
+
+const REPLAY_KEY = 'ordersheet_replays';
+
+type ReplayStore = Record<string, RawExtraction | RawExtractionItem[]>;
+
+const loadReplays = (): ReplayStore => {
+  try {
+    return JSON.parse(localStorage.getItem(REPLAY_KEY) || '{}');
+  } catch (e) {
+    console.error("Failed to parse replay recordings", e);
+    return {};
+  }
+};
+
+// SHA-256 of the (resized) image payload, used as the recording key
+export const hashImage = async (base64Data: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(base64Data);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const saveReplay = (imageHash: string, raw: RawExtraction | RawExtractionItem[]) => {
+  const replays = loadReplays();
+  replays[imageHash] = raw;
+  try {
+    localStorage.setItem(REPLAY_KEY, JSON.stringify(replays));
+  } catch (e) {
+    console.error("Failed to save replay recording", e);
+  }
+};
+
+export const countReplays = () => Object.keys(loadReplays()).length;
+
+export const clearReplays = () => localStorage.removeItem(REPLAY_KEY);
+
+// Serves previously recorded raw responses, so scans work without a key or network
+export const replayProvider: ExtractionProvider = {
+  id: 'replay',
+  label: 'Replay (Recorded Responses)',
+  detectVendor: async ({ imageHash }: ExtractionInput) => {
+    const recorded = loadReplays()[imageHash];
+    return recorded && !Array.isArray(recorded) ? recorded.vendorName || '' : '';
+  },
+  extract: async ({ imageHash }: ProfiledExtractionInput) => {
+    const recorded = loadReplays()[imageHash];
+    if (!recorded) {
+      throw new Error(`No recorded response for image ${imageHash.slice(0, 12)}`);
+    }
+    return recorded;
+  },
+};
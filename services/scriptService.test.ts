@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCRIPT_SETTINGS, isScriptOutdated, SCRIPT_VERSION, scriptFingerprint } from './scriptService';
+
+const options = { ...DEFAULT_SCRIPT_SETTINGS, spreadsheetId: 'sheet-1' };
+
+describe('isScriptOutdated', () => {
+  it('flags an older version or other settings', () => {
+    expect(isScriptOutdated({ version: SCRIPT_VERSION - 1, fingerprint: scriptFingerprint(options) }, options)).toBe(true);
+    expect(isScriptOutdated({ version: SCRIPT_VERSION, fingerprint: scriptFingerprint({ ...options, tab: 'Orders' }) }, options)).toBe(true);
+    expect(isScriptOutdated({ version: SCRIPT_VERSION, fingerprint: scriptFingerprint(options) }, options)).toBe(false);
+  });
+
+  it('checks only the version when no fingerprint is reported', () => {
+    expect(isScriptOutdated({ version: SCRIPT_VERSION, fingerprint: '' }, options)).toBe(false);
+    expect(isScriptOutdated({ version: 0, fingerprint: '' }, options)).toBe(true);
+  });
+});
@@ -0,0 +1,274 @@
+import { AppSettings, DeployedScriptInfo, ScriptSettings } from "../types";
+import { spreadsheetIdFromUrl, STANDARD_SHEET_COLUMNS } from "./destinationService";
+import { EXPORT_COLUMN_LABELS } from "./exportService";
+
+// Bump whenever the generated code changes behaviour, so deployed scripts are flagged as outdated
+export const SCRIPT_VERSION = 7;
+
+export const DEFAULT_SCRIPT_SETTINGS: ScriptSettings = {
+  tab: '',
+  columns: STANDARD_SHEET_COLUMNS,
+  includeTimestamp: false,
+  includeRecordId: false,
+  writeMode: 'append',
+};
+
+export interface ScriptOptions extends ScriptSettings {
+  spreadsheetId: string;
+}
+
+export const scriptOptionsFromSettings = (settings: AppSettings, fallbackSpreadsheetId: string): ScriptOptions => ({
+  ...settings.script,
+  spreadsheetId: spreadsheetIdFromUrl(settings.googleSheetUrl) || fallbackSpreadsheetId,
+});
+
+// FNV-1a over the options, so the app can tell when the deployed script was built from other settings
+export const scriptFingerprint = (options: ScriptOptions) => {
+  let hash = 0x811c9dc5;
+  for (const c of JSON.stringify(options)) {
+    hash ^= c.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const generateScript = (options: ScriptOptions) => `// COPY ALL OF THIS CODE
+// Generated by OrderSheet. Regenerate from Settings after changing the sheet options.
+var SCRIPT_VERSION = ${SCRIPT_VERSION};
+var SCRIPT_FINGERPRINT = ${JSON.stringify(scriptFingerprint(options))};
+var SPREADSHEET_ID = ${JSON.stringify(options.spreadsheetId)};
+var TAB_NAME = ${JSON.stringify(options.tab.trim())}; // Blank = first tab
+var DEFAULT_COLUMNS = ${JSON.stringify(options.columns)};
+var LABELS = ${JSON.stringify(EXPORT_COLUMN_LABELS)};
+var INCLUDE_TIMESTAMP = ${options.includeTimestamp};
+var INCLUDE_RECORD_ID = ${options.includeRecordId};
+var WRITE_MODE = ${JSON.stringify(options.writeMode)}; // "append" adds rows, "replace" clears the tab first, "upsert" updates matching rows
+var UPSERT_FIELDS = ["inStock", "par", "order", "price", "weight", "lineTotal"]; // What an upsert overwrites on a matching row
+
+// Replies with JSON: { ok, status: "written" | "duplicate", rows } or { ok: false, error, retryable }
+function reply(body) {
+  return ContentService.createTextOutput(JSON.stringify(body)).setMimeType(ContentService.MimeType.JSON);
+}
+
+// Keys of uploads already written, so a retried upload is never appended twice
+function getUploadLog(spreadsheet) {
+  var log = spreadsheet.getSheetByName("_uploads");
+  if (!log) {
+    log = spreadsheet.insertSheet("_uploads");
+    log.appendRow(["Idempotency Key", "Rows", "Written At"]);
+    log.hideSheet();
+  }
+  return log;
+}
+
+// Header row written when a tab is empty
+function headersFor(columns) {
+  var headers = columns.map(function(column) { return LABELS[column] || column; });
+  if (INCLUDE_TIMESTAMP) headers.push("Timestamp");
+  if (INCLUDE_RECORD_ID) headers.push("Record ID");
+  return headers;
+}
+
+function normalize(text) {
+  return String(text || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Same keys the app sends with each item: catalog id first, then vendor + description
+function rowKeys(columns, row) {
+  var keys = [];
+  var sku = columns.indexOf("catalogId");
+  if (sku >= 0 && row[sku]) keys.push("sku:" + normalize(row[sku]));
+  var vendor = columns.indexOf("vendor");
+  var description = columns.indexOf("description");
+  if (description >= 0 && row[description]) {
+    keys.push("name:" + normalize(vendor >= 0 ? row[vendor] : "") + "::" + normalize(row[description]));
+  }
+  return keys;
+}
+
+// Updates the latest row with a matching key and appends the rest. Returns "updated" / "inserted" per row.
+function upsertRows(sheet, columns, items, rows) {
+  var lastRow = sheet.getLastRow();
+  var width = Math.max(sheet.getLastColumn(), rows.length > 0 ? rows[0].length : 0);
+  var table = lastRow > 1 ? sheet.getRange(2, 1, lastRow - 1, width).getValues() : [];
+  var existingCount = table.length;
+  var index = {};
+  table.forEach(function(row, i) {
+    rowKeys(columns, row).forEach(function(k) { index[k] = i; });
+  });
+
+  var changed = false;
+  var outcomes = items.map(function(item, i) {
+    var row = rows[i];
+    while (row.length < width) row.push("");
+    var keys = item.keys && item.keys.length > 0 ? item.keys : rowKeys(columns, row);
+    var match = -1;
+    for (var k = 0; k < keys.length && match < 0; k++) {
+      if (index.hasOwnProperty(keys[k])) match = index[keys[k]];
+    }
+
+    if (match < 0) {
+      table.push(row);
+      keys.forEach(function(key) { index[key] = table.length - 1; });
+      return "inserted";
+    }
+
+    // Timestamp / Record ID sit after the item columns and are refreshed too
+    row.forEach(function(value, c) {
+      if (c >= columns.length || UPSERT_FIELDS.indexOf(columns[c]) >= 0) table[match][c] = value;
+    });
+    if (match < existingCount) changed = true;
+    return "updated";
+  });
+
+  if (changed) sheet.getRange(2, 1, existingCount, width).setValues(table.slice(0, existingCount));
+  var added = table.slice(existingCount);
+  if (added.length > 0) sheet.getRange(existingCount + 2, 1, added.length, width).setValues(added);
+  return outcomes;
+}
+
+// Errors the same request would hit again, such as a spreadsheet the script can't open,
+// are replied to as not retryable so the app stops resending them
+function permanentError(message) {
+  var err = new Error(message);
+  err.permanent = true;
+  return err;
+}
+
+function openSpreadsheet(id) {
+  try {
+    return SpreadsheetApp.openById(id);
+  } catch (err) {
+    throw permanentError("Cannot open spreadsheet " + id + ": " + err.message);
+  }
+}
+
+function isRetryable(err) {
+  return !err.permanent && !/permission/i.test(String(err.message || err));
+}
+
+// A destination may name another spreadsheet and tab; missing tabs are created
+function getTargetSheet(spreadsheet, sheetName, create) {
+  var name = sheetName || TAB_NAME;
+  if (!name) return spreadsheet.getSheets()[0];
+  return spreadsheet.getSheetByName(name) || (create ? spreadsheet.insertSheet(name) : null);
+}
+
+function doPost(e) {
+  // 1. SAFEGUARD FOR MANUAL RUNS
+  if (typeof e === 'undefined') {
+    return reply({ ok: false, retryable: false, error: "Event object 'e' is undefined. You cannot run this function manually from the editor. It must be triggered by the App." });
+  }
+
+  var lock = LockService.getScriptLock();
+  // Wait for up to 10 seconds for other processes to finish.
+  if (!lock.tryLock(10000)) {
+     return reply({ ok: false, retryable: true, error: "Could not obtain lock." });
+  }
+
+  try {
+    // Parse the data
+    var rawData = e.postData ? e.postData.contents : null;
+    if (!rawData) return reply({ ok: false, retryable: false, error: "No data received." });
+
+    var data;
+    try {
+      data = JSON.parse(rawData);
+    } catch (err) {
+      return reply({ ok: false, retryable: false, error: "Invalid JSON: " + err.message });
+    }
+    var spreadsheet = openSpreadsheet(data.spreadsheetId || SPREADSHEET_ID);
+    var sheet = getTargetSheet(spreadsheet, data.sheetName, true);
+    var columns = data.columns && data.columns.length > 0 ? data.columns : DEFAULT_COLUMNS;
+
+    var key = data.idempotencyKey ? String(data.idempotencyKey) : "";
+    var log = getUploadLog(spreadsheet);
+
+    if (key && log.createTextFinder(key).matchEntireCell(true).findNext()) {
+      return reply({ ok: true, status: "duplicate", rows: 0 });
+    }
+
+    var now = new Date();
+    var rows = (data.items || []).map(function(item) {
+      var row = columns.map(function(column) {
+        var value = item[column];
+        return value === undefined || value === null ? "" : value;
+      });
+      if (INCLUDE_TIMESTAMP) row.push(now);
+      if (INCLUDE_RECORD_ID) row.push(key.split("@")[0]);
+      return row;
+    });
+
+    // Row 1 is the header row and is kept
+    if (WRITE_MODE === "replace" && sheet.getLastRow() > 1) {
+      sheet.getRange(2, 1, sheet.getLastRow() - 1, sheet.getMaxColumns()).clearContent();
+    }
+    if (sheet.getLastRow() === 0) {
+      sheet.appendRow(headersFor(columns));
+    }
+
+    var outcomes = null;
+    if (WRITE_MODE === "upsert") {
+      outcomes = upsertRows(sheet, columns, data.items || [], rows);
+    } else if (rows.length > 0) {
+      // Batch write for better performance
+      sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, rows[0].length).setValues(rows);
+    }
+    if (key) log.appendRow([key, rows.length, now]);
+    
+    return reply({ ok: true, status: "written", rows: rows.length, outcomes: outcomes || undefined });
+    
+  } catch (err) {
+    // Otherwise usually a transient Sheets service error; safe to retry because of the idempotency key
+    return reply({ ok: false, retryable: isRetryable(err), error: err.toString() });
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+// ?action=version reports which generated script is deployed.
+// Otherwise returns every row as { vendor, description, par, ... } for "Sync from Sheet".
+function doGet(e) {
+  var params = (e && e.parameter) || {};
+  if (params.action === "version") {
+    return reply({ ok: true, version: SCRIPT_VERSION, fingerprint: SCRIPT_FINGERPRINT });
+  }
+
+  try {
+    var spreadsheet = openSpreadsheet(params.spreadsheetId || SPREADSHEET_ID);
+    var sheet = getTargetSheet(spreadsheet, params.sheetName, false);
+    if (!sheet) return reply({ ok: false, retryable: false, error: "Tab not found: " + (params.sheetName || TAB_NAME) });
+
+    var columns = params.columns ? params.columns.split(",") : DEFAULT_COLUMNS;
+    var items = sheet.getDataRange().getValues().map(function(row) {
+      var item = {};
+      columns.forEach(function(column, i) { item[column] = row[i]; });
+      return item;
+    });
+
+    return reply({ ok: true, columns: columns, items: items });
+  } catch (err) {
+    return reply({ ok: false, retryable: isRetryable(err), error: err.toString() });
+  }
+}`;
+
+// Scripts from before the version endpoint answer ?action=version with the item table (or text),
+// so anything without a numeric version counts as version 0
+export const fetchDeployedScriptInfo = async (scriptUrl: string): Promise<DeployedScriptInfo> => {
+  const url = new URL(scriptUrl);
+  url.searchParams.set('action', 'version');
+  const response = await fetch(url.toString());
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text);
+    if (typeof body.version === 'number') return { version: body.version, fingerprint: String(body.fingerprint || '') };
+  } catch {
+    // Legacy script
+  }
+  return { version: 0, fingerprint: '' };
+};
+
+// A current script without a fingerprint (the local stand-in server unless given one) can't be
+// checked against the settings, so only its version counts
+export const isScriptOutdated = (deployed: DeployedScriptInfo, options: ScriptOptions) =>
+  deployed.version < SCRIPT_VERSION || (deployed.fingerprint !== '' && deployed.fingerprint !== scriptFingerprint(options));
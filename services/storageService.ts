@@ -0,0 +1,346 @@
+import { AppSettings, CatalogItem, InvoiceItem, InvoiceRecord, OrderRule, OutboxEntry, ParMemory, VendorContact, VendorProfile } from "../types";
+
+// Everything the app keeps on the device lives in one IndexedDB database:
+//   records  – history records, without their items (key: id)
+//   items    – the items of each record (key: [recordId, id])
+//   settings – settings, catalog, PAR memory and other app-wide values (key: name)
+//   images   – scanned page images (key: page id)
+const DB_NAME = 'ordersheet';
+const DB_VERSION = 1;
+
+const RECORDS = 'records';
+const ITEMS = 'items';
+const SETTINGS = 'settings';
+const IMAGES = 'images';
+
+// Bumped whenever the stored record or item shape changes; add a migration for the step
+export const RECORD_SCHEMA_VERSION = 3;
+
+// The app-wide values, by the key they're stored under
+export interface StoredSettings {
+  settings: Partial<AppSettings>; // Older saves can lack newer fields; the app fills in defaults
+  vendorProfiles: VendorProfile[];
+  catalog: CatalogItem[];
+  parMemory: ParMemory;
+  orderRules: OrderRule[];
+  vendorContacts: VendorContact[];
+  poCounter: number;
+  outbox: OutboxEntry[];
+}
+
+export type SettingKey = keyof StoredSettings;
+
+const SETTING_KEYS: SettingKey[] = ['settings', 'vendorProfiles', 'catalog', 'parMemory', 'orderRules', 'vendorContacts', 'poCounter', 'outbox'];
+
+export interface StoredImage {
+  base64Data: string;
+  mimeType: string;
+}
+
+type StoredRecord = Omit<InvoiceRecord, 'items'> & { schemaVersion: number };
+type StoredItem = InvoiceItem & { recordId: string; position: number };
+
+// ---------------------------------------------------------------------------
+// Schema migrations
+
+// A record as it may have been saved by any earlier version of the app
+export type LegacyRecord = Omit<Partial<InvoiceRecord>, 'status'> & { status?: string; schemaVersion?: number; [key: string]: unknown };
+
+// Each entry upgrades a record from that version to the next.
+// Version 1 is the shape saved to localStorage before IndexedDB.
+const RECORD_MIGRATIONS: Record<number, (record: LegacyRecord) => LegacyRecord> = {
+  // Items are keyed by id within their record now, so ids must be present and unique.
+  // Counts and prices were sometimes saved as the strings typed into the inputs.
+  1: record => {
+    const seen = new Set<string>();
+    const items = (record.items || []).map((item, index) => {
+      let id = item.id || `item-${index}`;
+      if (seen.has(id)) id = `${id}-${index}`;
+      seen.add(id);
+      return {
+        ...item,
+        id,
+        description: item.description || '',
+        vendor: item.vendor || '',
+        inStock: Number(item.inStock) || 0,
+        par: Number(item.par) || 0,
+        order: Number(item.order) || 0,
+        price: Number(item.price) || 0,
+      };
+    });
+    return {
+      ...record,
+      id: String(record.id || `legacy-${record.date || Date.now()}`),
+      date: record.date || new Date(0).toISOString(),
+      items,
+      totalItems: items.length,
+      status: record.status || 'Uploaded',
+    };
+  },
+  // Every saved record used to be an upload; drafts didn't exist yet
+  2: record => ({
+    ...record,
+    status: record.status === 'Draft' ? 'Draft' : 'Exported',
+    revision: record.revision || 1,
+  }),
+};
+
+export const migrateRecord = (raw: LegacyRecord): InvoiceRecord => {
+  let record = raw;
+  for (let version = raw.schemaVersion || 1; version < RECORD_SCHEMA_VERSION; version++) {
+    const migrate = RECORD_MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from record schema ${version}`);
+    record = migrate(record);
+  }
+  const { schemaVersion, ...current } = record;
+  return current as InvoiceRecord;
+};
+
+// ---------------------------------------------------------------------------
+// Database access
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDS, { keyPath: 'id' }).createIndex('date', 'date');
+        db.createObjectStore(ITEMS, { keyPath: ['recordId', 'id'] }).createIndex('recordId', 'recordId');
+        db.createObjectStore(SETTINGS);
+        db.createObjectStore(IMAGES);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in one transaction and resolves once it has committed, so a failed write leaves nothing half-saved
+const transact = async <T>(storeNames: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => T | Promise<T>): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+  try {
+    // Awaited together so an abort caused by `work` throwing doesn't leave `done` rejecting unhandled.
+    // The async wrapper still runs `work` right away, while the transaction is active.
+    const [result] = await Promise.all([(async () => work(tx))(), done]);
+    return result;
+  } catch (e) {
+    if (!tx.error) try { tx.abort(); } catch { /* already finished */ }
+    throw e;
+  }
+};
+
+const putRecordInto = (tx: IDBTransaction, record: InvoiceRecord) => {
+  const { items, ...rest } = record;
+  const stored: StoredRecord = { ...rest, schemaVersion: RECORD_SCHEMA_VERSION };
+  tx.objectStore(RECORDS).put(stored);
+
+  // Replace the record's items wholesale, so rows deleted in review don't linger
+  const itemStore = tx.objectStore(ITEMS);
+  itemStore.delete(IDBKeyRange.bound([record.id], [record.id, []]));
+  items.forEach((item, position) => itemStore.put({ ...item, recordId: record.id, position } as StoredItem));
+};
+
+const deleteRecordFrom = (tx: IDBTransaction, id: string) => {
+  tx.objectStore(RECORDS).delete(id);
+  tx.objectStore(ITEMS).delete(IDBKeyRange.bound([id], [id, []]));
+};
+
+// ---------------------------------------------------------------------------
+// Records
+
+// Newest first, with items in their saved order. Records from an older schema are upgraded and saved back.
+export const listRecords = async (): Promise<InvoiceRecord[]> => {
+  const [storedRecords, storedItems] = await transact([RECORDS, ITEMS], 'readonly', tx => Promise.all([
+    requestResult<StoredRecord[]>(tx.objectStore(RECORDS).getAll()),
+    requestResult<StoredItem[]>(tx.objectStore(ITEMS).getAll()),
+  ]));
+
+  const itemsByRecord = new Map<string, StoredItem[]>();
+  storedItems.forEach(item => {
+    if (!itemsByRecord.has(item.recordId)) itemsByRecord.set(item.recordId, []);
+    itemsByRecord.get(item.recordId)!.push(item);
+  });
+
+  const outdated: InvoiceRecord[] = [];
+  const records = storedRecords.map(stored => {
+    const items = (itemsByRecord.get(stored.id) || [])
+      .sort((a, b) => a.position - b.position)
+      .map(({ recordId, position, ...item }) => item as InvoiceItem);
+    const record = migrateRecord({ ...stored, items });
+    if (stored.schemaVersion < RECORD_SCHEMA_VERSION) outdated.push(record);
+    return record;
+  });
+
+  if (outdated.length > 0) await saveRecords(outdated);
+  return records.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export const saveRecords = (records: InvoiceRecord[]) =>
+  transact([RECORDS, ITEMS], 'readwrite', tx => records.forEach(record => putRecordInto(tx, record)));
+
+export const deleteRecords = (ids: string[]) =>
+  transact([RECORDS, ITEMS], 'readwrite', tx => ids.forEach(id => deleteRecordFrom(tx, id)));
+
+// Writes only what changed between two versions of the history list. Records are replaced
+// rather than mutated in the app, so an unchanged record is the same object.
+export const saveRecordChanges = async (previous: InvoiceRecord[], next: InvoiceRecord[]) => {
+  const before = new Map(previous.map(record => [record.id, record]));
+  const changed = next.filter(record => before.get(record.id) !== record);
+  const nextIds = new Set(next.map(record => record.id));
+  const removed = previous.filter(record => !nextIds.has(record.id)).map(record => record.id);
+  if (changed.length === 0 && removed.length === 0) return;
+
+  await transact([RECORDS, ITEMS], 'readwrite', tx => {
+    removed.forEach(id => deleteRecordFrom(tx, id));
+    changed.forEach(record => putRecordInto(tx, record));
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Settings
+
+export const loadSettings = async (): Promise<Partial<StoredSettings>> => {
+  const values = await transact([SETTINGS], 'readonly', tx => {
+    const store = tx.objectStore(SETTINGS);
+    return Promise.all(SETTING_KEYS.map(key => requestResult(store.get(key))));
+  });
+  return Object.fromEntries(SETTING_KEYS.map((key, i) => [key, values[i]]).filter(([, value]) => value !== undefined));
+};
+
+export const saveSetting = <K extends SettingKey>(key: K, value: StoredSettings[K]) =>
+  transact([SETTINGS], 'readwrite', tx => { tx.objectStore(SETTINGS).put(value, key); });
+
+// ---------------------------------------------------------------------------
+// Images
+
+export const saveImage = (id: string, image: StoredImage) =>
+  transact([IMAGES], 'readwrite', tx => { tx.objectStore(IMAGES).put(image, id); });
+
+export const getImage = (id: string): Promise<StoredImage | undefined> =>
+  transact([IMAGES], 'readonly', tx => requestResult(tx.objectStore(IMAGES).get(id)));
+
+export const deleteImage = (id: string) =>
+  transact([IMAGES], 'readwrite', tx => { tx.objectStore(IMAGES).delete(id); });
+
+export const listImages = async (): Promise<Record<string, StoredImage>> => {
+  const [keys, values] = await transact([IMAGES], 'readonly', tx => {
+    const store = tx.objectStore(IMAGES);
+    return Promise.all([requestResult(store.getAllKeys()), requestResult(store.getAll() as IDBRequest<StoredImage[]>)]);
+  });
+  return Object.fromEntries(keys.map((key, i) => [String(key), values[i]]));
+};
+
+// Writes a set of images at once. With `keepIds`, every other image already stored is removed
+// first (an empty list clears the store), all in the same transaction.
+export const saveImages = (images: Record<string, StoredImage>, keepIds?: string[]) =>
+  transact([IMAGES], 'readwrite', async tx => {
+    const store = tx.objectStore(IMAGES);
+    if (keepIds) {
+      const keep = new Set(keepIds);
+      const existing = await requestResult(store.getAllKeys());
+      existing.filter(key => !keep.has(String(key))).forEach(key => store.delete(key));
+    }
+    Object.entries(images).forEach(([id, image]) => store.put(image, id));
+  });
+
+// ---------------------------------------------------------------------------
+// One-time import from localStorage and the old image database
+
+const IMPORTED_KEY = 'importedLegacyStorage';
+
+const LEGACY_HISTORY_KEY = 'ordersheet_history';
+const LEGACY_SETTING_KEYS: Record<SettingKey, string> = {
+  settings: 'ordersheet_settings',
+  vendorProfiles: 'ordersheet_vendor_profiles',
+  catalog: 'ordersheet_catalog',
+  parMemory: 'ordersheet_par_memory',
+  orderRules: 'ordersheet_order_rules',
+  vendorContacts: 'ordersheet_vendor_contacts',
+  poCounter: 'ordersheet_po_counter',
+  outbox: 'ordersheet_outbox',
+};
+const LEGACY_IMAGE_DB = 'ordersheet_images';
+
+export interface LegacyImportResult {
+  records: number;
+  images: number;
+  unreadable: string[]; // localStorage keys that didn't parse; their raw text is kept under "legacy:<key>"
+}
+
+const readLegacyImages = async (): Promise<[string, StoredImage][]> => {
+  // Opening a database that doesn't exist would create it, so check first where the browser allows
+  const known = indexedDB.databases ? (await indexedDB.databases()).some(db => db.name === LEGACY_IMAGE_DB) : true;
+  if (!known) return [];
+
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(LEGACY_IMAGE_DB);
+    request.onupgradeneeded = () => request.result.createObjectStore('images');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  try {
+    if (!db.objectStoreNames.contains('images')) return [];
+    const store = db.transaction('images', 'readonly').objectStore('images');
+    const [keys, values] = await Promise.all([requestResult(store.getAllKeys()), requestResult(store.getAll())]);
+    return keys.map((key, i) => [String(key), values[i] as StoredImage]);
+  } finally {
+    db.close();
+  }
+};
+
+// Copies what earlier versions saved into the database, once. The old localStorage keys and
+// image database are removed only after everything has been written.
+export const importLegacyStorage = async (): Promise<LegacyImportResult | null> => {
+  const imported = await transact([SETTINGS], 'readonly', tx => requestResult(tx.objectStore(SETTINGS).get(IMPORTED_KEY)));
+  if (imported) return null;
+
+  const unreadable: string[] = [];
+  const parse = (key: string) => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      console.error(`Failed to parse ${key}`, e);
+      unreadable.push(key);
+      return undefined;
+    }
+  };
+
+  const history: LegacyRecord[] = parse(LEGACY_HISTORY_KEY) || [];
+  const records = (Array.isArray(history) ? history : []).map(migrateRecord);
+  const settings = SETTING_KEYS
+    .map(key => [key, parse(LEGACY_SETTING_KEYS[key])] as const)
+    .filter(([, value]) => value !== undefined && value !== null);
+  const images = await readLegacyImages();
+
+  await transact([RECORDS, ITEMS, SETTINGS, IMAGES], 'readwrite', tx => {
+    records.forEach(record => putRecordInto(tx, record));
+    const settingStore = tx.objectStore(SETTINGS);
+    settings.forEach(([key, value]) => settingStore.put(key === 'poCounter' ? Number(value) || 0 : value, key));
+    unreadable.forEach(key => settingStore.put(localStorage.getItem(key), `legacy:${key}`));
+    images.forEach(([id, image]) => tx.objectStore(IMAGES).put(image, id));
+    settingStore.put(new Date().toISOString(), IMPORTED_KEY);
+  });
+
+  [LEGACY_HISTORY_KEY, ...Object.values(LEGACY_SETTING_KEYS)].forEach(key => localStorage.removeItem(key));
+  indexedDB.deleteDatabase(LEGACY_IMAGE_DB);
+
+  return { records: records.length, images: images.length, unreadable };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { CatalogItem } from '../types';
+import { applySheetSync, planSheetSync, SheetItem } from './syncService';
+
+const existing: CatalogItem = { id: 'SKU-00001', name: 'Cilantro', vendor: 'Sysco', aliases: [], unit: 'each', defaultPar: 4 };
+
+describe('applySheetSync', () => {
+  it("keeps the sheet's SKU on items it adds to the catalog", () => {
+    const sheetItems: SheetItem[] = [
+      { vendor: 'Sysco', description: 'Heavy Cream', par: 6, catalogId: 'SKU-00042' },
+      { vendor: 'Sysco', description: 'Shallots', par: 2 },
+    ];
+    const plan = planSheetSync(sheetItems, {}, [existing]);
+    const { catalog } = applySheetSync(plan, {}, {}, [existing]);
+    expect(catalog.map(c => [c.id, c.name, c.defaultPar])).toEqual([
+      ['SKU-00001', 'Cilantro', 4],
+      ['SKU-00042', 'Heavy Cream', 6],
+      ['SKU-00043', 'Shallots', 2],
+    ]);
+  });
+
+  it('gives a new id when two new items share a SKU', () => {
+    const sheetItems: SheetItem[] = [
+      { vendor: 'Sysco', description: 'Shallots', par: 2, catalogId: 'SKU-00042' },
+      { vendor: 'US Foods', description: 'Shallots', par: 3, catalogId: 'SKU-00042' },
+    ];
+    const plan = planSheetSync(sheetItems, {}, [existing]);
+    const { catalog } = applySheetSync(plan, {}, {}, [existing]);
+    expect(catalog.map(c => [c.id, c.vendor])).toEqual([['SKU-00001', 'Sysco'], ['SKU-00042', 'Sysco'], ['SKU-00043', 'US Foods']]);
+  });
+});
@@ -0,0 +1,119 @@
+import { CatalogItem, ParMemory, UploadTarget } from "../types";
+import { createCatalogItem, matchCatalogItem, normalizeText } from "./catalogService";
+import { lookupParEntry, rememberPar } from "./parMemoryService";
+
+// One item as the sheet currently has it
+export interface SheetItem {
+  vendor: string;
+  description: string;
+  par: number;
+  catalogId?: string;
+}
+
+// The sheet and a PAR confirmed locally disagree; the user picks which one wins
+export interface SyncConflict {
+  key: string;
+  sheet: SheetItem;
+  localPar: number;
+  localUpdatedAt: string;
+}
+
+export interface SheetSyncPlan {
+  parUpdates: SheetItem[]; // No local PAR yet, safe to take the sheet's
+  conflicts: SyncConflict[];
+  newCatalogItems: SheetItem[]; // Not in the catalog yet
+  unchanged: number;
+}
+
+export type SyncChoice = 'sheet' | 'local';
+
+const itemKey = (item: SheetItem) => `${normalizeText(item.vendor)}::${item.catalogId || normalizeText(item.description)}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Reads the script's doGet table. The sheet is an append log, so later rows win; header
+// rows and rows without a numeric PAR are skipped.
+export const fetchSheetItems = async ({ scriptUrl, spreadsheetId, sheetName }: UploadTarget): Promise<SheetItem[]> => {
+  const url = new URL(scriptUrl);
+  url.searchParams.set('action', 'items');
+  if (spreadsheetId) url.searchParams.set('spreadsheetId', spreadsheetId);
+  if (sheetName) url.searchParams.set('sheetName', sheetName);
+
+  const response = await fetch(url.toString());
+  const text = await response.text();
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error("The script has no read endpoint yet. Copy the latest script code and create a New Deployment.");
+  }
+  if (!isObject(body) || body.ok !== true) {
+    const error = isObject(body) && typeof body.error === 'string' ? body.error : '';
+    throw new Error(error || "The script could not read the sheet.");
+  }
+
+  const latest = new Map<string, SheetItem>();
+  (Array.isArray(body.items) ? body.items : []).filter(isObject).forEach(row => {
+    const description = String(row.description ?? '').trim();
+    const par = Number(row.par);
+    if (!description || row.par === '' || !Number.isFinite(par)) return;
+
+    const item: SheetItem = {
+      vendor: String(row.vendor ?? '').trim(),
+      description,
+      par,
+      catalogId: String(row.catalogId ?? '').trim() || undefined,
+    };
+    latest.set(itemKey(item), item);
+  });
+  return [...latest.values()];
+};
+
+export const planSheetSync = (sheetItems: SheetItem[], parMemory: ParMemory, catalog: CatalogItem[]): SheetSyncPlan => {
+  const plan: SheetSyncPlan = { parUpdates: [], conflicts: [], newCatalogItems: [], unchanged: 0 };
+
+  sheetItems.forEach(item => {
+    const inCatalog = (item.catalogId && catalog.some(c => c.id === item.catalogId)) || matchCatalogItem(item.description, item.vendor, catalog);
+    if (!inCatalog) plan.newCatalogItems.push(item);
+
+    const local = lookupParEntry(parMemory, item);
+    if (!local) {
+      plan.parUpdates.push(item);
+    } else if (local.par !== item.par) {
+      plan.conflicts.push({ key: itemKey(item), sheet: item, localPar: local.par, localUpdatedAt: local.updatedAt });
+    } else if (inCatalog) {
+      plan.unchanged++;
+    }
+  });
+  return plan;
+};
+
+// Sheet PARs go into PAR memory (and the catalog's default PAR); unknown items become catalog entries
+export const applySheetSync = (plan: SheetSyncPlan, choices: Record<string, SyncChoice>, parMemory: ParMemory, catalog: CatalogItem[]) => {
+  let memory = parMemory;
+  let nextCatalog = [...catalog];
+
+  // The sheet's SKU is kept, so later uploads and syncs still line up with its rows
+  plan.newCatalogItems.forEach(item => {
+    const created = createCatalogItem({ id: '', inStock: 0, order: 0, price: 0, ...item, catalogId: undefined }, nextCatalog);
+    const sku = item.catalogId && !nextCatalog.some(c => c.id === item.catalogId) ? item.catalogId : created.id;
+    nextCatalog.push({ ...created, id: sku });
+  });
+
+  const accepted = [
+    ...plan.parUpdates,
+    ...plan.conflicts.filter(c => (choices[c.key] || 'sheet') === 'sheet').map(c => c.sheet),
+  ];
+
+  accepted.forEach(item => {
+    const catalogItem = (item.catalogId && nextCatalog.find(c => c.id === item.catalogId)) || matchCatalogItem(item.description, item.vendor, nextCatalog)?.item;
+    memory = rememberPar(memory, { ...item, catalogId: catalogItem?.id }, item.par);
+    if (catalogItem) {
+      nextCatalog = nextCatalog.map(c => c.id === catalogItem.id ? { ...c, defaultPar: item.par } : c);
+    }
+  });
+
+  return { parMemory: memory, catalog: nextCatalog, applied: accepted.length };
+};
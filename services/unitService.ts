@@ -0,0 +1,127 @@
+import { CatalogItem, InvoiceItem, UnitConversion } from "../types";
+
+export const DEFAULT_WEIGHT_UNIT = 'lb';
+
+export const WEIGHT_UNITS = ['lb', 'oz', 'kg', 'g'];
+
+// Spellings seen on vendor sheets, mapped to one name per unit
+const UNIT_ALIASES: Record<string, string> = {
+  cs: 'case', case: 'case', cases: 'case', ctn: 'case', carton: 'case',
+  ea: 'each', each: 'each', pc: 'each', pcs: 'each', piece: 'each', ct: 'each',
+  lb: 'lb', lbs: 'lb', '#': 'lb', pound: 'lb', pounds: 'lb',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  kg: 'kg', kgs: 'kg', g: 'g', gr: 'g', gram: 'g', grams: 'g',
+  dz: 'dozen', doz: 'dozen', dozen: 'dozen',
+  bu: 'bunch', bn: 'bunch', bunch: 'bunch', bunches: 'bunch',
+  bag: 'bag', bags: 'bag', bx: 'box', box: 'box', boxes: 'box',
+};
+
+export const normalizeUnit = (unit?: string) => {
+  const key = (unit || '').trim().toLowerCase().replace(/\.$/, '');
+  return UNIT_ALIASES[key] || key;
+};
+
+// Always available, whatever the item
+export const STANDARD_CONVERSIONS: UnitConversion[] = [
+  { from: 'lb', to: 'oz', factor: 16 },
+  { from: 'kg', to: 'g', factor: 1000 },
+  { from: 'kg', to: 'lb', factor: 2.20462 },
+  { from: 'dozen', to: 'each', factor: 12 },
+];
+
+// Follows conversions in either direction and through several steps (case → lb → oz).
+// Undefined when the units aren't connected.
+export const convertQuantity = (quantity: number, from: string, to: string, conversions: UnitConversion[] = []): number | undefined => {
+  const start = normalizeUnit(from);
+  const goal = normalizeUnit(to);
+  if (start === goal) return quantity;
+
+  const edges = new Map<string, { unit: string; factor: number }[]>();
+  const addEdge = (a: string, b: string, factor: number) => edges.set(a, [...(edges.get(a) || []), { unit: b, factor }]);
+  [...conversions, ...STANDARD_CONVERSIONS]
+    .filter(c => c.factor > 0 && c.from && c.to)
+    .forEach(c => {
+      addEdge(normalizeUnit(c.from), normalizeUnit(c.to), c.factor);
+      addEdge(normalizeUnit(c.to), normalizeUnit(c.from), 1 / c.factor);
+    });
+
+  const seen = new Set([start]);
+  let frontier = [{ unit: start, factor: 1 }];
+  while (frontier.length > 0) {
+    const next: typeof frontier = [];
+    for (const node of frontier) {
+      for (const edge of edges.get(node.unit) || []) {
+        if (seen.has(edge.unit)) continue;
+        const factor = node.factor * edge.factor;
+        if (edge.unit === goal) return quantity * factor;
+        seen.add(edge.unit);
+        next.push({ unit: edge.unit, factor });
+      }
+    }
+    frontier = next;
+  }
+  return undefined;
+};
+
+const findCatalogItem = (item: Pick<InvoiceItem, 'catalogId'>, catalog: CatalogItem[]) =>
+  item.catalogId ? catalog.find(c => c.id === item.catalogId) : undefined;
+
+// What the price is per, e.g. "lb" for produce sold by weight or "case" for a case count
+export const pricedPer = (item: InvoiceItem) => {
+  if (item.priceUnit) return normalizeUnit(item.priceUnit);
+  if (item.priceBasis === 'weight') return normalizeUnit(item.weightUnit || DEFAULT_WEIGHT_UNIT);
+  return normalizeUnit(item.unit);
+};
+
+// Order × price, going through the weight and any unit conversion the price needs.
+// Undefined when that can't be worked out, e.g. a weight-priced item with no weight.
+export const lineTotal = (item: InvoiceItem, catalog: CatalogItem[] = []): number | undefined => {
+  const price = Number(item.price) || 0;
+  const order = Number(item.order) || 0;
+  if (!price) return undefined;
+
+  let quantity = order;
+  let unit = normalizeUnit(item.unit);
+  if (item.priceBasis === 'weight') {
+    if (!item.weight) return undefined;
+    quantity = order * item.weight;
+    unit = normalizeUnit(item.weightUnit || DEFAULT_WEIGHT_UNIT);
+  }
+
+  const per = pricedPer(item);
+  if (per && unit && per !== unit) {
+    const converted = convertQuantity(quantity, unit, per, findCatalogItem(item, catalog)?.conversions);
+    if (converted === undefined) return undefined;
+    quantity = converted;
+  }
+  return Math.round(quantity * price * 100) / 100;
+};
+
+export const formatQuantity = (quantity: number, unit?: string) =>
+  unit ? `${quantity} ${normalizeUnit(unit)}` : String(quantity);
+
+export const formatWeight = (item: Pick<InvoiceItem, 'weight' | 'weightUnit'>) =>
+  item.weight ? `${item.weight} ${normalizeUnit(item.weightUnit || DEFAULT_WEIGHT_UNIT)}` : '';
+
+// Ordered quantities added up per unit, e.g. [{ unit: 'case', quantity: 12 }, { unit: 'lb', quantity: 30 }]
+export const orderTotalsByUnit = (items: InvoiceItem[]) => {
+  const totals = new Map<string, number>();
+  items
+    .filter(item => Number(item.order) > 0)
+    .forEach(item => {
+      const unit = normalizeUnit(item.unit);
+      totals.set(unit, (totals.get(unit) || 0) + Number(item.order));
+    });
+  return Array.from(totals, ([unit, quantity]) => ({ unit, quantity }));
+};
+
+// Fills in what the scan didn't show from the matched catalog item
+export const withCatalogUnits = <T extends Partial<InvoiceItem>>(item: T, catalogItem?: CatalogItem): T => {
+  if (!catalogItem) return item;
+  return {
+    ...item,
+    unit: item.unit || catalogItem.unit || undefined,
+    priceBasis: catalogItem.priceBasis || item.priceBasis,
+    priceUnit: item.priceUnit || catalogItem.priceUnit || undefined,
+  };
+};
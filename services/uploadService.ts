@@ -0,0 +1,107 @@
+import { CatalogItem, InvoiceItem, OutboxEntry, RowOutcome, RowOutcomeStatus, UploadResult, UploadRow, UploadTarget } from "../types";
+import { normalizeText } from "./catalogService";
+import { toExportRows } from "./exportService";
+
+const BASE_RETRY_DELAY_MS = 15_000;
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+// After this many attempts the entry stops retrying on its own and waits for the user
+export const MAX_UPLOAD_ATTEMPTS = 8;
+
+// Same rules as rowKeys() in the generated script, which computes them for rows already in the sheet
+export const upsertKeys = (item: Pick<InvoiceItem, 'vendor' | 'description' | 'catalogId'>) => {
+  const keys = [`name:${normalizeText(item.vendor)}::${normalizeText(item.description)}`];
+  return item.catalogId ? [`sku:${normalizeText(item.catalogId)}`, ...keys] : keys;
+};
+
+// Every export column, so the script can write whichever ones the sheet is laid out with
+export const toUploadRows = (items: InvoiceItem[], catalog: CatalogItem[] = []): UploadRow[] =>
+  toExportRows(items, catalog).map(row => ({
+    ...(row as Omit<UploadRow, 'keys'>),
+    keys: upsertKeys({ vendor: String(row.vendor), description: String(row.description), catalogId: String(row.catalogId) }),
+  }));
+
+// Scripts deployed before the JSON contract answer with plain "Success" / "Error: ..." text
+export const parseScriptResponse = (text: string): UploadResult => {
+  try {
+    const body = JSON.parse(text);
+    if (body && typeof body.ok === 'boolean') {
+      return {
+        ok: body.ok,
+        status: body.status,
+        rows: body.rows,
+        outcomes: Array.isArray(body.outcomes) ? body.outcomes : undefined,
+        error: body.error,
+        retryable: !body.ok && body.retryable === true,
+      };
+    }
+  } catch {
+    // Not JSON, fall through to the legacy text check
+  }
+
+  if (text.includes("Success")) return { ok: true, status: 'written', retryable: false };
+  return { ok: false, error: text.slice(0, 200) || "Empty response", retryable: /lock/i.test(text) };
+};
+
+export const postRows = async ({ scriptUrl, spreadsheetId, sheetName, columns }: UploadTarget, rows: UploadRow[], idempotencyKey: string): Promise<UploadResult> => {
+  try {
+    const response = await fetch(scriptUrl, {
+      method: 'POST',
+      // Standard mode to read response, requires "Anyone" access on script
+      headers: { 'Content-Type': 'text/plain' },
+      body: JSON.stringify({ idempotencyKey, spreadsheetId, sheetName, columns, items: rows })
+    });
+
+    if (!response.ok) {
+      return { ok: false, error: `HTTP ${response.status}`, retryable: response.status === 429 || response.status >= 500 };
+    }
+
+    const text = await response.text();
+    console.log("Script Response:", text);
+    return parseScriptResponse(text);
+  } catch (e) {
+    console.error("Upload Error:", e);
+    return { ok: false, error: e instanceof Error ? e.message : "Network error", retryable: true };
+  }
+};
+
+export const toRowOutcomes = (rows: UploadRow[], outcomes: RowOutcomeStatus[]): RowOutcome[] =>
+  rows.map((row, i) => ({ vendor: row.vendor, description: row.description, status: outcomes[i] || 'inserted' }));
+
+// e.g. "3 updated, 2 inserted"
+export const summarizeOutcomes = (outcomes: RowOutcome[]) => {
+  const updated = outcomes.filter(o => o.status === 'updated').length;
+  return `${updated} updated, ${outcomes.length - updated} inserted`;
+};
+
+// 15s, 30s, 1m, 2m ... capped at an hour, with jitter so queued uploads don't retry in lockstep
+export const retryDelay = (attempts: number) =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1)) * (0.8 + Math.random() * 0.4);
+
+// Created after the first attempt failed. Errors the script says won't go away on their own
+// (e.g. a bad sheet ID) wait for the user instead of retrying.
+export const createOutboxEntry = (id: string, label: string, target: UploadTarget, rows: UploadRow[], result: UploadResult): OutboxEntry => ({
+  ...target,
+  id,
+  label,
+  rows,
+  createdAt: new Date().toISOString(),
+  attempts: 1,
+  nextAttemptAt: Date.now() + retryDelay(1),
+  lastError: result.error,
+  status: result.retryable ? 'pending' : 'failed',
+});
+
+export const scheduleRetry = (entry: OutboxEntry, result: UploadResult): OutboxEntry => {
+  const attempts = entry.attempts + 1;
+  const givesUp = !result.retryable || attempts >= MAX_UPLOAD_ATTEMPTS;
+  return {
+    ...entry,
+    attempts,
+    lastError: result.error,
+    nextAttemptAt: Date.now() + retryDelay(attempts),
+    status: givesUp ? 'failed' : 'pending',
+  };
+};
+
+export const isOutboxEntryDue = (entry: OutboxEntry, now = Date.now()) =>
+  entry.status === 'pending' && entry.nextAttemptAt <= now;
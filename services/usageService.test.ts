@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { InvoiceItem, InvoiceRecord, RecordStatus } from '../types';
+import { buildUsageIndex, getItemUsage } from './usageService';
+
+const item = { id: 'row-1', vendor: 'Sysco', description: 'Cilantro', catalogId: 'SKU-00001' } as InvoiceItem;
+
+const record = (id: string, date: string, status: RecordStatus, inStock: number, order: number): InvoiceRecord => ({
+  id, date, status, items: [{ ...item, inStock, order }], totalItems: 1,
+});
+
+describe('buildUsageIndex', () => {
+  it('leaves drafts out of the counts', () => {
+    const history = [
+      record('r3', '2026-03-08T09:00:00Z', 'Draft', 0, 0),
+      record('r1', '2026-03-01T09:00:00Z', 'Exported', 4, 6),
+      record('r2', '2026-03-04T09:00:00Z', 'Export-failed', 7, 3),
+    ];
+    const usage = getItemUsage(buildUsageIndex(history), item);
+    expect(usage.counts.map(count => count.date)).toEqual(['2026-03-01T09:00:00Z', '2026-03-04T09:00:00Z']);
+    expect(usage.intervals).toHaveLength(1);
+    expect(usage.intervals[0].consumed).toBe(3);
+  });
+});
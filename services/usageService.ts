@@ -0,0 +1,83 @@
+import { InvoiceItem, InvoiceRecord } from "../types";
+import { normalizeText } from "./catalogService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counts closer together than this (e.g. a re-scan the same morning) are not a usage interval
+const MIN_INTERVAL_DAYS = 0.5;
+
+export interface StockCount {
+  date: string;
+  inStock: number;
+  order: number;
+}
+
+export interface UsageInterval {
+  from: string;
+  to: string;
+  days: number;
+  consumed: number;
+  dailyRate: number;
+}
+
+export interface UsageSummary {
+  counts: StockCount[];
+  intervals: UsageInterval[];
+  dailyRate: number;
+  weeklyRate: number;
+}
+
+type UsageKeySource = Pick<InvoiceItem, 'vendor' | 'description' | 'catalogId'>;
+
+export const usageKey = (item: UsageKeySource) =>
+  `${normalizeText(item.vendor)}::${item.catalogId || normalizeText(item.description)}`;
+
+// Stock counts per item across all records, oldest first. Drafts are left out: the review
+// being edited is one, and its unfinished counts would pass for a count taken today.
+export const buildUsageIndex = (history: InvoiceRecord[]): Map<string, StockCount[]> => {
+  const index = new Map<string, StockCount[]>();
+  history
+    .filter(record => record.status !== 'Draft')
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(record => {
+      record.items.forEach(item => {
+        const key = usageKey(item);
+        const counts = index.get(key) || [];
+        counts.push({ date: record.date, inStock: Number(item.inStock) || 0, order: Number(item.order) || 0 });
+        index.set(key, counts);
+      });
+    });
+  return index;
+};
+
+// Consumption between two counts = what we had + what we ordered - what is left.
+// Assumes each order arrived before the next count.
+export const summarizeUsage = (counts: StockCount[]): UsageSummary => {
+  const intervals: UsageInterval[] = [];
+
+  for (let i = 1; i < counts.length; i++) {
+    const previous = counts[i - 1];
+    const current = counts[i];
+    const days = (new Date(current.date).getTime() - new Date(previous.date).getTime()) / DAY_MS;
+    if (days < MIN_INTERVAL_DAYS) continue;
+
+    const consumed = Math.max(0, previous.inStock + previous.order - current.inStock);
+    intervals.push({ from: previous.date, to: current.date, days, consumed, dailyRate: consumed / days });
+  }
+
+  const totalDays = intervals.reduce((sum, i) => sum + i.days, 0);
+  const totalConsumed = intervals.reduce((sum, i) => sum + i.consumed, 0);
+  const dailyRate = totalDays > 0 ? totalConsumed / totalDays : 0;
+
+  return { counts, intervals, dailyRate, weeklyRate: dailyRate * 7 };
+};
+
+export const getItemUsage = (index: Map<string, StockCount[]>, item: UsageKeySource): UsageSummary =>
+  summarizeUsage(index.get(usageKey(item)) || []);
+
+// Enough stock to cover the target number of days at the observed rate.
+// Undefined until there is at least one usage interval to base it on.
+export const suggestPar = (usage: UsageSummary, daysOfCover: number): number | undefined => {
+  if (usage.intervals.length === 0 || daysOfCover <= 0) return undefined;
+  return Math.ceil(usage.dailyRate * daysOfCover);
+};
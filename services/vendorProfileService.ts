@@ -0,0 +1,58 @@
+import { SheetColumn, VendorProfile } from "../types";
+
+export const SHEET_COLUMN_LABELS: Record<SheetColumn, string> = {
+  inStock: 'In Stock',
+  par: 'PAR',
+  order: 'Order',
+  description: 'Description',
+  price: 'Price',
+  caseSize: 'Case Size',
+  weight: 'Weight (lbs/Oz)',
+  unit: 'Unit',
+};
+
+export const ALL_SHEET_COLUMNS = Object.keys(SHEET_COLUMN_LABELS) as SheetColumn[];
+
+// The original sheet layout: In Stock, PAR, Order, Description, Price, then Weight
+export const DEFAULT_VENDOR_PROFILE: VendorProfile = {
+  id: 'default',
+  name: '',
+  headerMatch: [],
+  columns: ['inStock', 'par', 'order', 'description', 'price', 'weight'],
+  priceHandling: 'column',
+  weightHandling: 'capture',
+  priceBasis: 'unit',
+};
+
+export const createVendorProfile = (name = ''): VendorProfile => ({
+  ...DEFAULT_VENDOR_PROFILE,
+  id: `vendor-${Date.now()}`,
+  name,
+  headerMatch: name ? [name] : [],
+});
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Picks the profile whose header fragment matches the printed header best (longest match wins)
+export const matchVendorProfile = (headerText: string, profiles: VendorProfile[]): VendorProfile | undefined => {
+  const header = normalize(headerText);
+  if (!header) return undefined;
+
+  let best: { profile: VendorProfile; length: number } | undefined;
+  profiles.forEach(profile => {
+    profile.headerMatch.map(normalize).filter(Boolean).forEach(fragment => {
+      if (header.includes(fragment) && (!best || fragment.length > best.length)) {
+        best = { profile, length: fragment.length };
+      }
+    });
+  });
+  return best?.profile;
+};
+
+// Columns the model should return a value for, honoring price/weight handling
+export const getExtractedColumns = (profile: VendorProfile): SheetColumn[] =>
+  profile.columns.filter(col => {
+    if (col === 'price') return profile.priceHandling === 'column';
+    if (col === 'weight') return profile.weightHandling === 'capture';
+    return true;
+  });
@@ -0,0 +1,167 @@
+import { CatalogItem, InvoiceItem, UploadResult, WebhookConfig, WebhookRequest, WebhookValidation } from "../types";
+import { toUploadRows } from "./uploadService";
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "id": "{{record.id}}",
+  "label": "{{record.label}}",
+  "sentAt": "{{record.date}}",
+  "items": {{json items}}
+}`;
+
+export const createWebhookConfig = (): WebhookConfig => ({
+  url: '',
+  method: 'POST',
+  contentType: 'application/json',
+  headers: [],
+  bodyTemplate: DEFAULT_WEBHOOK_TEMPLATE,
+  secret: '',
+  signatureHeader: 'X-Signature-256',
+  validation: { statuses: '2xx', bodyContains: '', jsonField: '', jsonValue: '' },
+});
+
+type TemplateItem = Omit<ReturnType<typeof toUploadRows>[number], 'keys'>;
+
+// What a body template can refer to
+export interface WebhookContext {
+  record: { id: string; label: string; date: string; itemCount: number; orderCount: number };
+  items: TemplateItem[];
+  orders: TemplateItem[]; // Items with an Order above 0
+}
+
+export const buildWebhookContext = (items: InvoiceItem[], id: string, label: string, catalog: CatalogItem[] = [], date = new Date()): WebhookContext => {
+  const rows: TemplateItem[] = toUploadRows(items, catalog).map(({ keys, ...row }) => row);
+  const orders = rows.filter(row => row.order > 0);
+  return {
+    record: { id, label, date: date.toISOString(), itemCount: rows.length, orderCount: orders.length },
+    items: rows,
+    orders,
+  };
+};
+
+// Innermost scope first; "." is the current scope itself
+const lookup = (path: string, scopes: unknown[]): unknown => {
+  if (path === '.') return scopes[0];
+  const [head, ...rest] = path.split('.');
+  const scope = scopes.find(s => s !== null && typeof s === 'object' && head in (s as object));
+  return rest.reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], (scope as Record<string, unknown> | undefined)?.[head]);
+};
+
+// Values dropped into a JSON body are escaped so they can sit inside a quoted string
+const escapeFor = (contentType: string) => (value: string) => {
+  if (/json/i.test(contentType)) return JSON.stringify(value).slice(1, -1);
+  if (/x-www-form-urlencoded/i.test(contentType)) return encodeURIComponent(value);
+  return value;
+};
+
+// Sections and tags are matched in one pass over the template, so a substituted value is never
+// scanned again: a description containing "{{record.id}}" is sent as that text
+const TOKEN = /\{\{([#^])([\w.@]+)\}\}([\s\S]*?)\{\{\/\2\}\}|\{\{(json\s+)?([\w.@]+)\}\}/g;
+
+const renderSection = (type: string, path: string, inner: string, scopes: unknown[], escape: (value: string) => string) => {
+  const value = lookup(path, scopes);
+  const empty = !value || (Array.isArray(value) && value.length === 0);
+  if (type === '^') return empty ? render(inner, scopes, escape) : '';
+  if (empty) return '';
+  if (!Array.isArray(value)) return render(inner, [value, ...scopes], escape);
+  return value.map((entry, i) => {
+    const position = { '@index': i + 1, '@first': i === 0, '@last': i === value.length - 1 };
+    return render(inner, [entry, position, ...scopes], escape);
+  }).join('');
+};
+
+const renderTag = (json: string | undefined, path: string, scopes: unknown[], escape: (value: string) => string) => {
+  const value = lookup(path, scopes);
+  if (json) return JSON.stringify(value ?? null);
+  return value === undefined || value === null ? '' : escape(String(value));
+};
+
+const render = (template: string, scopes: unknown[], escape: (value: string) => string): string =>
+  template.replace(TOKEN, (_, type: string | undefined, sectionPath: string, inner: string, json: string | undefined, tagPath: string) =>
+    type ? renderSection(type, sectionPath, inner, scopes, escape) : renderTag(json, tagPath, scopes, escape)
+  );
+
+// Mustache-style: {{record.label}} inserts a value, {{json items}} inserts it as JSON,
+// {{#orders}}...{{/orders}} repeats for each entry ({{@index}}, {{@first}} and {{@last}} inside),
+// and {{^orders}}...{{/orders}} renders only when the list is empty.
+export const renderTemplate = (template: string, context: WebhookContext, contentType: string) =>
+  render(template, [context], escapeFor(contentType));
+
+const hmacSha256Hex = async (secret: string, body: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Signed once here so a retried request is byte-for-byte the one that was previewed and first sent
+export const buildWebhookRequest = async (config: WebhookConfig, context: WebhookContext, idempotencyKey: string): Promise<WebhookRequest> => {
+  const body = renderTemplate(config.bodyTemplate, context, config.contentType);
+  const headers: Record<string, string> = {
+    'Content-Type': config.contentType,
+    'Idempotency-Key': idempotencyKey,
+  };
+  config.headers
+    .filter(header => header.name.trim())
+    .forEach(header => { headers[header.name.trim()] = render(header.value, [context], value => value); });
+  if (config.secret) {
+    headers[config.signatureHeader.trim() || 'X-Signature-256'] = `sha256=${await hmacSha256Hex(config.secret, body)}`;
+  }
+
+  return { url: config.url.trim(), method: config.method, headers, body, validation: config.validation };
+};
+
+// Blank means any 2xx. Otherwise a comma list of codes ("201"), ranges ("200-204") and classes ("2xx").
+export const matchesStatus = (status: number, rule: string) => {
+  const tokens = rule.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+  if (tokens.length === 0) return status >= 200 && status < 300;
+  return tokens.some(token => {
+    const range = token.match(/^(\d{3})\s*-\s*(\d{3})$/);
+    if (range) return status >= Number(range[1]) && status <= Number(range[2]);
+    if (/^\dxx$/.test(token)) return Math.floor(status / 100) === Number(token[0]);
+    return status === Number(token);
+  });
+};
+
+// Undefined when the response passes every rule, otherwise why it didn't
+export const validateWebhookResponse = (validation: WebhookValidation, status: number, text: string): string | undefined => {
+  if (!matchesStatus(status, validation.statuses)) return `HTTP ${status}`;
+  if (validation.bodyContains && !text.includes(validation.bodyContains)) {
+    return `Response doesn't contain "${validation.bodyContains}"`;
+  }
+  if (validation.jsonField) {
+    let value: unknown;
+    try {
+      value = validation.jsonField.split('.').reduce<unknown>((v, key) => (v as Record<string, unknown> | undefined)?.[key], JSON.parse(text));
+    } catch {
+      return "Response isn't JSON";
+    }
+    const expected = validation.jsonValue.trim();
+    if (expected ? String(value) !== expected : !value) {
+      return `${validation.jsonField} is ${JSON.stringify(value ?? null)}${expected ? `, expected ${expected}` : ''}`;
+    }
+  }
+  return undefined;
+};
+
+// Rate limits and server errors are retried; a reply that fails the rules waits for the user
+export const sendWebhookRequest = async (request: WebhookRequest): Promise<UploadResult> => {
+  try {
+    const response = await fetch(request.url, { method: request.method, headers: request.headers, body: request.body });
+    const text = await response.text();
+    const error = validateWebhookResponse(request.validation, response.status, text);
+    if (!error) return { ok: true, status: 'written', retryable: false };
+    return { ok: false, error, retryable: response.status === 429 || response.status >= 500 };
+  } catch (e) {
+    console.error("Webhook Error:", e);
+    return { ok: false, error: e instanceof Error ? e.message : "Network error", retryable: true };
+  }
+};
+
+// Raw HTTP-style text for the dry-run preview
+export const formatWebhookRequest = (request: WebhookRequest) =>
+  [
+    `${request.method} ${request.url || '(no URL)'}`,
+    ...Object.entries(request.headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    request.body,
+  ].join('\n');
@@ -1,4 +1,9 @@
 
+export type ConfidenceField = 'inStock' | 'par' | 'order' | 'price' | 'description';
+
+// 0 (guess) to 1 (certain), as reported by the extraction provider
+export type FieldConfidence = Partial<Record<ConfidenceField, number>>;
+
 export interface InvoiceItem {
   id: string;
   description: string;
@@ -7,20 +12,395 @@ export interface InvoiceItem {
   par: number;
   order: number;
   price: number;
+  confidence?: FieldConfidence;
+  reviewedFields?: ConfidenceField[]; // Cells a person has looked at or edited
+  caseSize?: number; // Units per case, when the vendor sheet has a case-size column
+  unit?: string; // What In Stock / PAR / Order count, e.g. "case", "each", "bunch" (see unitService)
+  weight?: number; // Weight of one unit, in weightUnit. Only captured for profiles with weightHandling 'capture'
+  weightUnit?: string; // Unset = "lb"
+  priceBasis?: PriceBasis; // Unset = per unit
+  priceUnit?: string; // What the price is quoted per, when that isn't the unit (or weightUnit), e.g. "each" for a case count
+  catalogId?: string; // SKU of the matched CatalogItem; unset means unmatched
+  parSource?: ParSource;
+  rawNeed?: number; // Quantity needed before order rules rounded it; unset when typed in by hand
+  pageId?: string; // ScanPage the row was read from
+  rowBox?: BoundingBox; // Where the row sits on that page
+  scanned?: ScannedValues; // As extraction first read the row; unset for rows added by hand
+}
+
+// Review cells that are compared against what was scanned (see editHistoryService)
+export type ScannedField = 'vendor' | 'description' | 'inStock' | 'par' | 'order' | 'price' | 'unit' | 'weight';
+export type ScannedValues = Partial<Pick<InvoiceItem, ScannedField | 'rawNeed' | 'parSource'>>;
+
+// Whether the price is per counted unit or per unit of weight (produce sold by the pound)
+export type PriceBasis = 'unit' | 'weight';
+
+// 1 `from` = `factor` × `to`, e.g. { from: 'case', to: 'each', factor: 12 }
+export interface UnitConversion {
+  from: string;
+  to: string;
+  factor: number;
+}
+
+// [ymin, xmin, ymax, xmax], normalized to 0-1000 of the page size
+export type BoundingBox = [number, number, number, number];
+
+// A scanned page image, kept so rows can be checked against the original photo.
+// The image data itself lives in the images store (see storageService).
+export interface ScanPage {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  createdAt: string;
+}
+
+// Where an item's PAR came from: written on the sheet, remembered from an earlier edit, or a fallback
+export type ParSource = 'sheet' | 'memory' | 'default';
+
+export interface RememberedPar {
+  par: number;
+  updatedAt: string;
+}
+
+// Confirmed PAR levels keyed by vendor + item (see parMemoryService)
+export type ParMemory = Record<string, RememberedPar>;
+
+export type RoundingMode = 'up' | 'down' | 'nearest';
+
+// How a raw need becomes an order quantity. Item rules win over vendor rules.
+export interface OrderRule {
+  id: string;
+  scope: 'vendor' | 'item';
+  vendor: string; // Empty matches every vendor
+  item: string; // Catalog SKU or description; only used for item scope
+  packSize: number; // Order in multiples of this; 0 or 1 means no rounding
+  rounding: RoundingMode;
+  minOrder: number; // 0 means no minimum
+  maxOrder: number; // 0 means no cap
+  neverOrder: boolean;
+}
+
+// Canonical item that every scanned spelling is matched against
+export interface CatalogItem {
+  id: string; // Stable SKU, e.g. "SKU-00042"
+  name: string;
+  vendor: string;
+  aliases: string[]; // Other spellings seen on scans
+  unit: string; // Counting unit, used when the scan doesn't show one
+  defaultPar: number;
+  priceBasis?: PriceBasis;
+  priceUnit?: string;
+  conversions?: UnitConversion[]; // Item-specific, e.g. case → each; lb → oz and the like are built in
+}
+
+// Draft: still being reviewed (autosaved). Export-failed: at least one destination didn't take it yet.
+export type RecordStatus = 'Draft' | 'Exported' | 'Export-failed';
+
+// A record's contents as they were before later edits replaced them
+export interface RecordVersion {
+  revision: number;
+  savedAt: string;
+  status: RecordStatus;
+  items: InvoiceItem[];
+  purchaseOrders?: PurchaseOrderRef[];
 }
 
 export interface InvoiceRecord {
   id: string;
-  date: string;
+  date: string; // When the record was started
+  updatedAt?: string;
   items: InvoiceItem[];
   totalItems: number;
-  status: 'Draft' | 'Uploaded';
+  status: RecordStatus;
+  exportError?: string; // Why the last export didn't fully go through
+  revision?: number; // Starts at 1; goes up each time an exported record is edited again
+  versions?: RecordVersion[]; // Oldest first
+  pages?: ScanPage[];
+  purchaseOrders?: PurchaseOrderRef[];
+}
+
+// Ordering details for a supplier, matched to scanned items by vendor name
+export interface VendorContact {
+  id: string;
+  vendor: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  address: string;
+  accountNumber: string; // Our customer number with this vendor, printed on POs
+}
+
+export interface PurchaseOrderLine {
+  description: string;
+  catalogId?: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+  pricedPer?: string; // e.g. "lb" when the price is per pound
+  extended: number; // 0 when it can't be worked out (no price, or no weight for a weight-priced item)
+}
+
+export interface PurchaseOrder {
+  number: string; // PO-00001
+  vendor: string;
+  date: string;
+  lines: PurchaseOrderLine[];
+  total: number;
+}
+
+// What the history keeps of a generated PO; the document can be rebuilt from the record's items
+export interface PurchaseOrderRef {
+  number: string;
+  vendor: string;
+  date: string;
+  total: number;
 }
 
+// Row sent to the Apps Script, one per item
+export interface UploadRow {
+  inStock: number;
+  par: number;
+  order: number;
+  description: string;
+  vendor: string;
+  price: number;
+  catalogId: string;
+  unit: string;
+  weight: string; // e.g. "40 lb"
+  pricedPer: string;
+  lineTotal: number | '';
+  keys: string[]; // Upsert match keys, most specific first (catalog id, then vendor + description)
+}
+
+export type RowOutcomeStatus = 'updated' | 'inserted';
+
+// What an upsert did with one uploaded row
+export interface RowOutcome {
+  vendor: string;
+  description: string;
+  status: RowOutcomeStatus;
+}
+
+// The script's JSON reply. 'duplicate' means the idempotency key was already written.
+export interface UploadResult {
+  ok: boolean;
+  status?: 'written' | 'duplicate';
+  rows?: number;
+  outcomes?: RowOutcomeStatus[]; // Upsert mode only, in the order the rows were sent
+  error?: string;
+  retryable: boolean; // Network errors, lock contention and 5xx are worth retrying
+}
+
+// Where an upload is written. Unset fields fall back to the script's own spreadsheet,
+// its first tab and the standard column layout.
+export interface UploadTarget {
+  scriptUrl: string;
+  spreadsheetId?: string;
+  sheetName?: string;
+  columns?: ExportColumn[];
+}
+
+// A failed upload waiting to be resent. Its id doubles as the idempotency key.
+export interface OutboxEntry extends UploadTarget {
+  id: string;
+  label: string;
+  rows: UploadRow[];
+  request?: WebhookRequest; // Webhook uploads resend this exact request instead of posting rows to a script
+  recordId?: string; // History record the upload belongs to, marked exported once everything is through
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number; // Epoch ms
+  lastError?: string;
+  status: 'pending' | 'failed'; // 'failed' stops automatic retries until retried by hand
+}
+
+export type ExtractionProviderId = 'gemini' | 'replay' | 'ocr';
+
 export interface AppSettings {
   googleSheetUrl: string;
   scriptUrl: string; // Webhook URL for Google Apps Script
   autoExport: boolean;
+  extractionProvider: ExtractionProviderId;
+  recordResponses: boolean; // Save raw Gemini responses so they can be replayed offline
+  daysOfCover: number; // Target stock coverage used for suggested PARs
+  exportFormat: ExportFormat; // Last file format chosen in the export modal
+  exportColumns: Record<ExportFormat, ExportColumnSetting[]>;
+  destinations: ExportDestination[]; // In addition to the main sheet (scriptUrl above)
+  routingRules: RoutingRule[];
+  script: ScriptSettings;
+}
+
+export type ScriptWriteMode = 'append' | 'replace' | 'upsert';
+
+// What the generated Apps Script writes to the main sheet
+export interface ScriptSettings {
+  tab: string; // Blank = first tab
+  columns: ExportColumn[];
+  includeTimestamp: boolean;
+  includeRecordId: boolean;
+  writeMode: ScriptWriteMode;
+}
+
+// Reported by a deployed script's version endpoint
+export interface DeployedScriptInfo {
+  version: number;
+  fingerprint: string;
+}
+
+// A named sheet/tab that uploads can be sent to
+export interface ExportDestination {
+  id: string;
+  name: string;
+  kind?: DestinationKind; // Unset = 'sheet' (destinations saved before webhooks existed)
+  scriptUrl: string; // Blank = the main script
+  sheetUrl: string; // Blank = the spreadsheet the script was set up for
+  tab: string; // Blank = first tab; created if missing
+  columns: ExportColumn[]; // Sheet columns, left to right
+  webhook?: WebhookConfig; // Set when kind is 'webhook'
+}
+
+export type DestinationKind = 'sheet' | 'webhook';
+
+export type WebhookMethod = 'POST' | 'PUT' | 'PATCH';
+
+export interface WebhookHeader {
+  name: string;
+  value: string;
+}
+
+// Decides whether a webhook response counts as delivered. Blank rules aren't checked.
+export interface WebhookValidation {
+  statuses: string; // e.g. "2xx" or "200, 201, 202-204"
+  bodyContains: string;
+  jsonField: string; // Dot path into a JSON reply, e.g. "result.ok"
+  jsonValue: string; // Compared as text with the field's value
+}
+
+export interface WebhookConfig {
+  url: string;
+  method: WebhookMethod;
+  contentType: string;
+  headers: WebhookHeader[];
+  bodyTemplate: string; // See renderTemplate() in webhookService
+  secret: string; // Blank = unsigned
+  signatureHeader: string;
+  validation: WebhookValidation;
+}
+
+// A fully rendered and signed webhook call, as sent and as shown in the dry-run preview
+export interface WebhookRequest {
+  url: string;
+  method: WebhookMethod;
+  headers: Record<string, string>;
+  body: string;
+  validation: WebhookValidation;
+}
+
+// Sends a vendor's items to a destination. Vendors matching no rule go to the main sheet.
+export interface RoutingRule {
+  id: string;
+  vendor: string; // Matched as a fragment of the vendor name
+  destinationId: string;
+}
+
+export interface DestinationResult {
+  destinationId: string;
+  name: string;
+  rows: number;
+  status: 'sent' | 'duplicate' | 'queued' | 'skipped';
+  error?: string;
+  outcomes?: RowOutcome[]; // When the script upserted instead of appending
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf';
+
+export type ExportColumn = 'vendor' | 'description' | 'inStock' | 'par' | 'order' | 'price' | 'catalogId' | 'unit' | 'weight' | 'pricedPer' | 'lineTotal';
+
+// One output column, in file order. The header is what the file calls it (e.g. a POS import's field name).
+export interface ExportColumnSetting {
+  key: ExportColumn;
+  header: string;
+}
+
+export type ExportRow = Record<ExportColumn, string | number>;
+
+export interface Exporter {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  export: (rows: ExportRow[], columns: ExportColumnSetting[]) => Blob;
+}
+
+export type SheetColumn = 'inStock' | 'par' | 'order' | 'description' | 'price' | 'caseSize' | 'weight' | 'unit';
+
+// Describes one vendor's printed sheet so the prompt and schema match its layout
+export interface VendorProfile {
+  id: string;
+  name: string; // Vendor name applied to every extracted item
+  headerMatch: string[]; // Printed header fragments that identify this vendor's sheet
+  columns: SheetColumn[]; // Columns present on the sheet, left to right
+  priceHandling: 'column' | 'none';
+  weightHandling: 'ignore' | 'capture';
+  priceBasis?: PriceBasis; // How this vendor quotes prices; unset = per unit
+}
+
+// Raw row as returned by an extraction backend (mirrors the Gemini response schema).
+// The columnN_ keys come from the original fixed-layout schema and are still
+// accepted so older recorded responses keep replaying.
+export interface RawExtractionItem {
+  description?: string;
+  inStock?: number | string;
+  par?: number | string;
+  order?: number | string;
+  price?: number | string;
+  caseSize?: number | string;
+  weight?: number | string;
+  weightUnit?: string;
+  unit?: string;
+  rowBox?: number[];
+  column1_inStock?: number | string;
+  column2_par?: number | string;
+  column3_order?: number | string;
+  column4_price?: number | string;
+  confidence?: FieldConfidence;
+}
+
+export interface RawExtraction {
+  vendorName?: string;
+  items?: RawExtractionItem[];
+}
+
+export interface ExtractionInput {
+  base64Data: string;
+  mimeType: string;
+  imageHash: string;
+}
+
+export interface ProfiledExtractionInput extends ExtractionInput {
+  profile: VendorProfile;
+}
+
+export type ScanJobStatus = 'queued' | 'analyzing' | 'done' | 'failed';
+
+// One page of a batch scan. Multi-page PDFs become one job per page.
+export interface ScanJob {
+  id: string;
+  file: File;
+  fileName: string;
+  pageNumber?: number;
+  pageCount?: number;
+  status: ScanJobStatus;
+  itemCount?: number;
+  error?: string;
+}
+
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  extract: (input: ProfiledExtractionInput) => Promise<RawExtraction | RawExtractionItem[]>;
+  // Reads just the printed header so a vendor profile can be chosen before extraction
+  detectVendor?: (input: ExtractionInput) => Promise<string>;
+  imagesOnly?: boolean; // Can't read PDFs
 }
 
 export enum AppView {
@@ -28,5 +408,10 @@ export enum AppView {
   SCAN = 'SCAN',
   REVIEW = 'REVIEW',
   HISTORY = 'HISTORY',
-  SETTINGS = 'SETTINGS'
+  SETTINGS = 'SETTINGS',
+  VENDOR_PROFILES = 'VENDOR_PROFILES',
+  CATALOG = 'CATALOG',
+  ORDER_RULES = 'ORDER_RULES',
+  VENDOR_CONTACTS = 'VENDOR_CONTACTS',
+  DESTINATIONS = 'DESTINATIONS'
 }